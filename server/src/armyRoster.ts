@@ -0,0 +1,50 @@
+import type { OwnedUnit } from '../../shared/armyValidation';
+
+/** Where the server looks up which units a player owns */
+export interface ArmyRoster {
+  ownedUnits(playerId: string): Promise<OwnedUnit[]>;
+}
+
+interface ArmyUnitRow {
+  id: string;
+  unit_type_id: string;
+  upgrades: unknown[] | null;
+  xp: number | null;
+}
+
+/**
+ * Reads player_army_units through Supabase's REST API with the service role key, which bypasses
+ * row-level security, so it must only ever live on the server.
+ */
+export function createSupabaseRoster(url: string, serviceRoleKey: string): ArmyRoster {
+  return {
+    async ownedUnits(playerId) {
+      const query = new URLSearchParams({
+        select: 'id,unit_type_id,upgrades,xp,player_armies!inner(player_id)',
+        'player_armies.player_id': `eq.${playerId}`,
+      });
+      const response = await fetch(`${url}/rest/v1/player_army_units?${query}`, {
+        headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Army lookup failed with ${response.status}: ${await response.text()}`);
+      }
+      const rows = (await response.json()) as ArmyUnitRow[];
+      return rows.map((row) => ({
+        instanceId: row.id,
+        unitTypeId: row.unit_type_id,
+        upgrades: row.upgrades ?? [],
+        xp: row.xp ?? 0,
+      }));
+    },
+  };
+}
+
+/** In-memory stand-in for player_army_units, for tests and running without a database */
+export function createLocalRoster(unitsByPlayer: Record<string, OwnedUnit[]>): ArmyRoster {
+  return {
+    async ownedUnits(playerId) {
+      return unitsByPlayer[playerId] ?? [];
+    },
+  };
+}
@@ -0,0 +1,211 @@
+import type { OwnedUnit } from '../../shared/armyValidation';
+import { getUnitCost, isGddUnitId } from '../../shared/credits';
+import { getOwnedUpgrades, getUpgradeCost } from '../../shared/gddUnits';
+import type { UnitUpgradeId } from '../../shared/gddUnits';
+import type { CreditReason } from '../../shared/rewards';
+import type { CreditLedgerEntry } from './creditLedger';
+
+/** Army builder slots, matching its unit limit */
+export const ARMY_SLOTS = 20;
+
+/** What the army builder saves in one go; prices are never taken from the client */
+export interface ArmyChangeRequest {
+  /** Chosen by the client for each save, so a retried save is only charged once */
+  changeId: string;
+  armyId: string;
+  /** Saved units to sell back */
+  removals: string[];
+  additions: { unitTypeId: string; slotIndex: number; upgrades: UnitUpgradeId[] }[];
+  /** Saved units and the upgrades they should have; saved upgrades are permanent, so only new ones are charged */
+  upgrades: { instanceId: string; upgrades: string[] }[];
+}
+
+/** A change with its price: at most one ledger entry per reason, and each upgraded unit's full list */
+export interface PricedArmyChange extends ArmyChangeRequest {
+  upgrades: { instanceId: string; upgrades: UnitUpgradeId[] }[];
+  entries: { amount: number; reason: CreditReason }[];
+}
+
+export type ArmyChangeOutcome =
+  | { ok: true; balance: number }
+  | { ok: false; reason: 'not_owned' | 'not_enough_credits' | 'already_applied' };
+
+/** Where the server applies a priced change: the ledger entries, the balance and the units move together */
+export interface ArmyShop {
+  apply(playerId: string, change: PricedArmyChange): Promise<ArmyChangeOutcome>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= ARMY_SLOTS && value.every((item) => typeof item === 'string');
+
+const isSlotIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < ARMY_SLOTS;
+
+/** Checks the shape of a save sent by the army builder; null when anything is off */
+export function parseArmyChange(body: unknown): ArmyChangeRequest | null {
+  if (!isRecord(body) || typeof body.changeId !== 'string' || !body.changeId || typeof body.armyId !== 'string') {
+    return null;
+  }
+  const { removals, additions, upgrades } = body;
+  if (!isStringList(removals) || !Array.isArray(additions) || !Array.isArray(upgrades)) {
+    return null;
+  }
+  if (additions.length > ARMY_SLOTS || upgrades.length > ARMY_SLOTS) {
+    return null;
+  }
+
+  const request: ArmyChangeRequest = {
+    changeId: body.changeId,
+    armyId: body.armyId,
+    removals: [...removals],
+    additions: [],
+    upgrades: [],
+  };
+  for (const addition of additions) {
+    if (
+      !isRecord(addition) ||
+      typeof addition.unitTypeId !== 'string' ||
+      !isGddUnitId(addition.unitTypeId.toLowerCase()) ||
+      !isSlotIndex(addition.slotIndex) ||
+      !isStringList(addition.upgrades)
+    ) {
+      return null;
+    }
+    request.additions.push({
+      unitTypeId: addition.unitTypeId,
+      slotIndex: addition.slotIndex,
+      upgrades: getOwnedUpgrades(addition.unitTypeId.toLowerCase(), addition.upgrades),
+    });
+  }
+  for (const upgrade of upgrades) {
+    if (!isRecord(upgrade) || typeof upgrade.instanceId !== 'string' || !isStringList(upgrade.upgrades)) {
+      return null;
+    }
+    request.upgrades.push({ instanceId: upgrade.instanceId, upgrades: [...upgrade.upgrades] });
+  }
+
+  // A unit is sold or upgraded at most once per save, never both
+  const touched = [...request.removals, ...request.upgrades.map((upgrade) => upgrade.instanceId)];
+  return new Set(touched).size === touched.length ? request : null;
+}
+
+/**
+ * Prices a change against the units the player owns: new units and upgrades at their credit cost,
+ * sold units refunded in full. Null when the change touches a unit the player does not own.
+ */
+export function priceArmyChange(request: ArmyChangeRequest, owned: OwnedUnit[]): PricedArmyChange | null {
+  const ownedById = new Map(owned.map((unit) => [unit.instanceId, unit]));
+  const touched = [...request.removals, ...request.upgrades.map((upgrade) => upgrade.instanceId)];
+  if (!touched.every((id) => ownedById.has(id))) {
+    return null;
+  }
+
+  let unitSpend = 0;
+  let upgradeSpend = 0;
+  let refund = 0;
+  for (const addition of request.additions) {
+    unitSpend += getUnitCost(addition.unitTypeId);
+    upgradeSpend += getUpgradeCost(addition.unitTypeId.toLowerCase(), addition.upgrades);
+  }
+  const upgrades: PricedArmyChange['upgrades'] = [];
+  for (const { instanceId, upgrades: requested } of request.upgrades) {
+    const unit = ownedById.get(instanceId)!;
+    const typeId = unit.unitTypeId.toLowerCase();
+    const saved = getOwnedUpgrades(typeId, unit.upgrades);
+    const added = getOwnedUpgrades(typeId, requested).filter((upgradeId) => !saved.includes(upgradeId));
+    if (added.length > 0) {
+      upgradeSpend += getUpgradeCost(typeId, added);
+      upgrades.push({ instanceId, upgrades: getOwnedUpgrades(typeId, [...saved, ...added]) });
+    }
+  }
+  for (const id of request.removals) {
+    const unit = ownedById.get(id)!;
+    refund += getUnitCost(unit.unitTypeId) + getUpgradeCost(unit.unitTypeId.toLowerCase(), unit.upgrades);
+  }
+
+  const entries: PricedArmyChange['entries'] = [];
+  if (unitSpend > 0) entries.push({ amount: -unitSpend, reason: 'unit_purchase' });
+  if (upgradeSpend > 0) entries.push({ amount: -upgradeSpend, reason: 'upgrade_purchase' });
+  if (refund > 0) entries.push({ amount: refund, reason: 'unit_refund' });
+  return { ...request, upgrades, entries };
+}
+
+/**
+ * Calls the apply_army_change database function (see the server README), which checks the units
+ * belong to the player's army, appends the ledger entries and rewrites the units in one transaction.
+ * Needs the service role key.
+ */
+export function createSupabaseArmyShop(url: string, serviceRoleKey: string): ArmyShop {
+  return {
+    async apply(playerId, change) {
+      const response = await fetch(`${url}/rest/v1/rpc/apply_army_change`, {
+        method: 'POST',
+        headers: {
+          apikey: serviceRoleKey,
+          Authorization: `Bearer ${serviceRoleKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          p_player_id: playerId,
+          p_army_id: change.armyId,
+          p_reference_id: change.changeId,
+          p_entries: change.entries,
+          p_removals: change.removals,
+          p_additions: change.additions.map(({ unitTypeId, slotIndex, upgrades }) => ({
+            unit_type_id: unitTypeId,
+            slot_index: slotIndex,
+            upgrades,
+          })),
+          p_upgrades: change.upgrades.map(({ instanceId, upgrades }) => ({ instance_id: instanceId, upgrades })),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Army change failed with ${response.status}: ${await response.text()}`);
+      }
+      return (await response.json()) as ArmyChangeOutcome;
+    },
+  };
+}
+
+/** In-memory stand-in for apply_army_change over one army per player, for tests and running without a database */
+export function createLocalArmyShop(unitsByPlayer: Record<string, OwnedUnit[]>, balances: Record<string, number>) {
+  const entries: CreditLedgerEntry[] = [];
+  const shop: ArmyShop & { entries: readonly CreditLedgerEntry[] } = {
+    entries,
+    async apply(playerId, change) {
+      const units = unitsByPlayer[playerId] ?? [];
+      const touched = [...change.removals, ...change.upgrades.map((upgrade) => upgrade.instanceId)];
+      if (!touched.every((id) => units.some((unit) => unit.instanceId === id))) {
+        return { ok: false, reason: 'not_owned' };
+      }
+      if (entries.some((entry) => entry.playerId === playerId && entry.referenceId === change.changeId)) {
+        return { ok: false, reason: 'already_applied' };
+      }
+      const balance = (balances[playerId] ?? 0) + change.entries.reduce((total, entry) => total + entry.amount, 0);
+      if (balance < 0) {
+        return { ok: false, reason: 'not_enough_credits' };
+      }
+
+      entries.push(...change.entries.map((entry) => ({ ...entry, playerId, referenceId: change.changeId })));
+      balances[playerId] = balance;
+      unitsByPlayer[playerId] = [
+        ...units
+          .filter((unit) => !change.removals.includes(unit.instanceId))
+          .map((unit) => ({
+            ...unit,
+            upgrades: change.upgrades.find((upgrade) => upgrade.instanceId === unit.instanceId)?.upgrades ?? unit.upgrades,
+          })),
+        ...change.additions.map(({ unitTypeId, upgrades }, index) => ({
+          instanceId: `${change.changeId}-${index}`,
+          unitTypeId,
+          upgrades,
+          xp: 0,
+        })),
+      ];
+      return { ok: true, balance };
+    },
+  };
+  return shop;
+}
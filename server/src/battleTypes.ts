@@ -1,8 +1,40 @@
 // Local copy of the engine-facing types so the server can compile in isolation.
 // Keep in sync with src/types and src/engine/battleEngine.
+import type { BehaviorConfig, UnitUpgradeId } from '../../shared/gddUnits';
+import type { BattleMap } from '../../shared/battleMaps';
+import type { ResolutionMode, Ruleset } from '../../shared/ruleset';
+
+export type { ResolutionMode };
 
 export type Team = 'player' | 'enemy';
 
+export type BattleEndReason = 'breach' | 'elimination' | 'noPathToWin' | 'stalemate';
+
+export type BattleOutcomeReason = BattleEndReason | 'tickLimit';
+
+export interface TeamBattleStats {
+  kills: number;
+  damageDealt: number;
+  damageAbsorbed: number;
+}
+
+export interface BattleSummary {
+  winner: Team | null;
+  reason: BattleOutcomeReason;
+  breachUnitId: string | null;
+  totalTurns: number;
+  teams: Record<Team, TeamBattleStats>;
+}
+
+export interface UnitXpAward {
+  instanceId: string;
+  team: Team;
+  kills: number;
+  damageDealt: number;
+  survived: boolean;
+  xp: number;
+}
+
 export interface Unit {
   id: string;
   name: string;
@@ -25,6 +57,21 @@ export interface Position {
 
 export interface ArmyUnitInstance extends Unit {
   instanceId: string;
+  upgrades?: UnitUpgradeId[];
+  xp?: number;
+}
+
+export interface StatusEffect {
+  type: 'paralyzed' | 'sidestepPending' | 'slowed';
+  turnsRemaining: number;
+  sourceId?: string;
+}
+
+export interface StrategyRule {
+  id: string;
+  unitId: string;
+  condition: string;
+  action: string;
 }
 
 export interface PlacedUnit extends ArmyUnitInstance {
@@ -32,6 +79,10 @@ export interface PlacedUnit extends ArmyUnitInstance {
   team: Team;
   currentHp?: number;
   currentShield?: number;
+  behaviorConfig?: BehaviorConfig;
+  selectedBehaviors?: string[];
+  statusEffects?: StatusEffect[];
+  strategyRules?: StrategyRule[];
 }
 
 export interface HitEvent {
@@ -43,14 +94,60 @@ export interface HitEvent {
   targetPosition: Position;
   attackType: 'melee' | 'ranged';
   didKill: boolean;
+  damageToHp: number;
+  damageToShield: number;
+}
+
+export interface StatusEvent {
+  id: string;
+  type: 'paralyze';
+  sourceId: string;
+  sourceTeam: Team;
+  sourcePosition: Position;
+  targetId: string;
+  targetPosition: Position;
+  turns: number;
+  refreshed: boolean;
+}
+
+export type UnitActionKind = 'move' | 'attack' | 'idle' | 'blocked' | 'paralyzed';
+
+export type UnitActionReason =
+  | 'resting'
+  | 'slowed'
+  | 'noPath'
+  | 'allyAhead'
+  | 'enemyOutOfReach'
+  | 'collision'
+  | 'tileOccupied'
+  | 'targetDead'
+  | 'holdPosition'
+  | 'ruleUnavailable';
+
+export interface UnitActionRecord {
+  unitId: string;
+  team: Team;
+  kind: UnitActionKind;
+  from: Position;
+  to?: Position;
+  targetId?: string;
+  attackType?: 'melee' | 'ranged' | 'paralyze';
+  planned?: 'move' | 'attack';
+  reason?: UnitActionReason;
+  ruleId?: string;
+  terrainDamage?: number;
 }
 
 export interface BattleTickResult {
   units: PlacedUnit[];
   hits: string[];
   hitEvents: HitEvent[];
+  statusEvents: StatusEvent[];
   moves: string[];
+  actions: UnitActionRecord[];
   winner: Team | null;
+  endReason: BattleEndReason | null;
+  quietTurns: number;
   currentTeam: Team;
   turnNumber: number;
 }
@@ -59,11 +156,33 @@ export interface BattleState {
   units: PlacedUnit[];
   currentTeam: Team;
   turnNumber: number;
+  seed: number;
+  resolutionMode: ResolutionMode;
+  map: BattleMap;
+  ruleset: Ruleset;
+}
+
+export interface BattleInitOptions {
+  startingTeam?: Team;
+  seed?: number;
+  resolutionMode?: ResolutionMode;
+  map?: BattleMap;
+  ruleset?: Ruleset;
 }
 
 export interface BattleEngineModule {
-  advanceBattleTick: (units: PlacedUnit[], currentTeam: Team, turnNumber: number) => BattleTickResult;
-  initializeBattle: (units: PlacedUnit[]) => BattleState;
+  advanceBattleTick: (
+    units: PlacedUnit[],
+    currentTeam: Team,
+    turnNumber: number,
+    quietTurns?: number,
+    resolutionMode?: ResolutionMode,
+    map?: BattleMap,
+    ruleset?: Ruleset
+  ) => BattleTickResult;
+  initializeBattle: (units: PlacedUnit[], options?: BattleInitOptions) => BattleState;
+  summarizeBattle: (timeline: BattleTickResult[], ruleset?: Ruleset) => BattleSummary;
+  awardBattleXp: (timeline: BattleTickResult[]) => UnitXpAward[];
   BOARD_SIZE: number;
   BOARD_COLS: number;
   PLAYER_ROWS: number;
@@ -0,0 +1,69 @@
+import type { CreditReason } from '../../shared/rewards';
+
+/** One credit change; entries are only ever appended */
+export interface CreditLedgerEntry {
+  playerId: string;
+  /** Positive for credits earned, negative for credits spent */
+  amount: number;
+  reason: CreditReason;
+  /** The match or army change the entry is for; a player gets at most one entry per reason and reference */
+  referenceId: string;
+}
+
+export interface CreditChange {
+  /** False when the entry was already recorded, so the balance was left alone */
+  applied: boolean;
+  /** The player's credits after the change, when it was applied */
+  balance?: number;
+}
+
+/** Where the server records credit changes and keeps players' balances in step with them */
+export interface CreditLedger {
+  record(entry: CreditLedgerEntry): Promise<CreditChange>;
+}
+
+/**
+ * Calls the record_credit_change database function (see the server README), which appends to
+ * credit_ledger and adjusts players.current_credits in one transaction. Needs the service role key.
+ */
+export function createSupabaseLedger(url: string, serviceRoleKey: string): CreditLedger {
+  return {
+    async record({ playerId, amount, reason, referenceId }) {
+      const response = await fetch(`${url}/rest/v1/rpc/record_credit_change`, {
+        method: 'POST',
+        headers: {
+          apikey: serviceRoleKey,
+          Authorization: `Bearer ${serviceRoleKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ p_player_id: playerId, p_amount: amount, p_reason: reason, p_reference_id: referenceId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Credit change failed with ${response.status}: ${await response.text()}`);
+      }
+      const balance = (await response.json()) as number | null;
+      return balance === null ? { applied: false } : { applied: true, balance };
+    },
+  };
+}
+
+/** In-memory stand-in for credit_ledger and players.current_credits, for tests and running without a database */
+export function createLocalLedger(balances: Record<string, number> = {}) {
+  const entries: CreditLedgerEntry[] = [];
+  const ledger: CreditLedger & { entries: readonly CreditLedgerEntry[] } = {
+    entries,
+    async record(entry) {
+      const duplicate = entries.some(
+        (recorded) =>
+          recorded.playerId === entry.playerId && recorded.reason === entry.reason && recorded.referenceId === entry.referenceId
+      );
+      if (duplicate) {
+        return { applied: false };
+      }
+      entries.push({ ...entry });
+      balances[entry.playerId] = (balances[entry.playerId] ?? 0) + entry.amount;
+      return { applied: true, balance: balances[entry.playerId] };
+    },
+  };
+  return ledger;
+}
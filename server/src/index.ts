@@ -2,20 +2,148 @@ import { WebSocketServer, WebSocket } from 'ws';
 import cors from 'cors';
 import express from 'express';
 import { randomUUID } from 'crypto';
-import { ClientToServer, ServerToClient, ArmyConfig } from './types';
-import { runServerBattle, mirrorTimelineForPlayerB } from './runBattle';
+import { ClientToServer, ServerToClient, ArmyConfig, SESSION_REPLACED_CLOSE_CODE, UnitXpAward } from './types';
+import {
+  runServerBattle,
+  mirrorTimelineForPlayerB,
+  mirrorSummaryForPlayerB,
+  mirrorMapForPlayerB,
+  mirrorDisplacementsForPlayerB,
+  mirrorArmyForOpponent,
+  xpAwardsForPlayer,
+} from './runBattle';
 import { buildGddUnit } from '../../shared/gddUnits';
+import { BATTLE_MAPS, fitsBoard, getBattleMap } from '../../shared/battleMaps';
+import { CURRENT_RULESET, deploymentZoneStart, getRuleset } from '../../shared/ruleset';
+import type { BattleMap } from '../../shared/battleMaps';
+import { getDeploymentArea } from '../../shared/deployment';
+import { forfeitAdjustment, startMindGame, submitAdjustment } from '../../shared/mindGame';
+import type { MindGameSide, MindGameState } from '../../shared/mindGame';
+import { SERIES_ADJUSTMENT_LIMIT, reviseSeriesArmy, scoreSeries, seriesWinner } from '../../shared/series';
+import type { MatchFormat, MatchWinner } from '../../shared/series';
+import { checkOwnership, validateArmy } from '../../shared/armyValidation';
+import type { ArmyValidation } from '../../shared/armyValidation';
+import { createSupabaseRoster } from './armyRoster';
+import type { ArmyRoster } from './armyRoster';
+import { createSupabaseArmyShop, parseArmyChange, priceArmyChange } from './armyShop';
+import type { ArmyChangeOutcome, ArmyShop } from './armyShop';
+import { createSupabaseLedger } from './creditLedger';
+import type { CreditLedger } from './creditLedger';
+import { createSupabaseRanks, winRewardFor } from './playerRanks';
+import type { PlayerRanks } from './playerRanks';
+import { createSupabaseXpLedger } from './unitXpLedger';
+import type { UnitXpLedger } from './unitXpLedger';
+import { createJwtSecretVerifier, createSupabaseTokenVerifier } from './tokenVerifier';
+import type { TokenVerifier } from './tokenVerifier';
 
 interface Client {
   socket: WebSocket;
-  userId: string;
+  /** Account proven by the hello access token; their army must come from its player_army_units */
+  playerId: string;
   name: string;
   army?: ArmyConfig;
+  /** Settles once the latest set_army has been checked; read army only after it */
+  armyCheck: Promise<void>;
+  /** Format of each challenge this client has sent and not yet had answered, by opponent player id */
+  challenges: Map<string, MatchFormat>;
 }
 
+// A challenge that was accepted but is still in the pre-battle mind game (GDD 5.4)
+interface PendingMatch {
+  matchId: string;
+  challenger: Client;
+  defender: Client;
+  state: MindGameState<ArmyConfig[number]>;
+  timer?: NodeJS.Timeout;
+}
+
+// A best-of-3 series (GDD 4.4); armies are in each player's own coordinates, like set_army
+interface Series {
+  seriesId: string;
+  challenger: Client;
+  defender: Client;
+  armies: Record<'A' | 'B', ArmyConfig>;
+  results: MatchWinner[];
+  /** Adjusted armies submitted for the next match */
+  nextArmies: Partial<Record<'A' | 'B', ArmyConfig>>;
+  timer?: NodeJS.Timeout;
+}
 
 const PORT = 4000;
 const allowedOrigin = process.env.CLIENT_ORIGIN ?? 'http://localhost:5173';
+// Set RULESET_VERSION to trial another ruleset (board shape, resolution rules...); every match on this server uses it
+const matchRuleset = getRuleset(process.env.RULESET_VERSION) ?? CURRENT_RULESET;
+if (process.env.RULESET_VERSION && matchRuleset.version !== process.env.RULESET_VERSION) {
+  console.warn(`Unknown RULESET_VERSION "${process.env.RULESET_VERSION}", using ${matchRuleset.version}`);
+}
+// Set BATTLE_MAP to a map id to fight every match on it; otherwise each match draws a map
+const playableMaps = BATTLE_MAPS.filter((map) => fitsBoard(map, matchRuleset.board));
+const fixedBattleMap = playableMaps.find((map) => map === getBattleMap(process.env.BATTLE_MAP));
+if (process.env.BATTLE_MAP && !fixedBattleMap) {
+  console.warn(`BATTLE_MAP "${process.env.BATTLE_MAP}" is unknown or does not fit the board, drawing a map per match`);
+}
+
+function chooseBattleMap(): BattleMap {
+  return fixedBattleMap ?? playableMaps[Math.floor(Math.random() * playableMaps.length)];
+}
+
+// Set MIND_GAME_TIMEOUT_MS to change how long each side has for its pre-battle adjustment
+const adjustmentTimeoutMs = Number(process.env.MIND_GAME_TIMEOUT_MS) || 30000;
+const deploymentArea = getDeploymentArea(matchRuleset);
+const pendingMatches = new Map<string, PendingMatch>();
+// Set SERIES_ADJUSTMENT_TIMEOUT_MS to change how long players have to adjust between series matches
+const seriesAdjustmentTimeoutMs = Number(process.env.SERIES_ADJUSTMENT_TIMEOUT_MS) || 90000;
+const activeSeries = new Map<string, Series>();
+
+// With SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set, every army must be made of units the player owns
+const armyRoster: ArmyRoster | null =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createSupabaseRoster(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null;
+if (!armyRoster) {
+  console.warn('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set, army ownership is not verified');
+}
+
+// With the same settings, match rewards and unit experience are granted through the server's ledgers
+const creditLedger: CreditLedger | null =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createSupabaseLedger(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null;
+if (!creditLedger) {
+  console.warn('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set, battle rewards and experience are not granted');
+}
+const playerRanks: PlayerRanks | null =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createSupabaseRanks(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null;
+const armyShop: ArmyShop | null =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createSupabaseArmyShop(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null;
+const xpLedger: UnitXpLedger | null =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createSupabaseXpLedger(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null;
+
+// Every connection must prove which account it is before it can play; without a way to check
+// tokens the server still starts, but refuses every sign-in
+function createTokenVerifier(): TokenVerifier | null {
+  // SUPABASE_JWT_SECRET checks tokens locally; otherwise Supabase Auth is asked about each one
+  if (process.env.SUPABASE_JWT_SECRET) {
+    return createJwtSecretVerifier(process.env.SUPABASE_JWT_SECRET);
+  }
+  const apiKey = process.env.SUPABASE_ANON_KEY ?? process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (process.env.SUPABASE_URL && apiKey) {
+    return createSupabaseTokenVerifier(process.env.SUPABASE_URL, apiKey);
+  }
+  return null;
+}
+const tokenVerifier = createTokenVerifier();
+const SIGN_IN_NOT_CONFIGURED =
+  'Sign-in is not configured on this server: set SUPABASE_JWT_SECRET, or SUPABASE_URL with SUPABASE_ANON_KEY';
+if (!tokenVerifier) {
+  console.warn(SIGN_IN_NOT_CONFIGURED);
+}
 
 // Create an Express app for HTTP (needed for CORS preflight)
 const app = express();
@@ -25,10 +153,52 @@ app.use(
     credentials: true,
   })
 );
+app.use(express.json());
+
+const ARMY_CHANGE_FAILURES: Record<Exclude<ArmyChangeOutcome, { ok: true }>['reason'], string> = {
+  not_owned: 'That army or unit is not yours',
+  not_enough_credits: 'Not enough credits to finalize this purchase.',
+  already_applied: 'These changes were already saved',
+};
+
+// The army builder's purchases, upgrades and refunds: priced here and charged through the credit ledger
+app.post('/army/changes', async (req, res) => {
+  if (!armyShop || !armyRoster || !tokenVerifier) {
+    res.status(503).json({ error: 'Saving armies is not available on this server' });
+    return;
+  }
+  try {
+    const accessToken = req.get('authorization')?.replace(/^Bearer /, '') ?? '';
+    const player = accessToken ? await tokenVerifier.verify(accessToken) : null;
+    if (!player) {
+      res.status(401).json({ error: 'Sign in to save your army' });
+      return;
+    }
+    const request = parseArmyChange(req.body);
+    if (!request) {
+      res.status(400).json({ error: 'Malformed army change' });
+      return;
+    }
+    const priced = priceArmyChange(request, await armyRoster.ownedUnits(player.playerId));
+    const outcome: ArmyChangeOutcome = priced
+      ? await armyShop.apply(player.playerId, priced)
+      : { ok: false, reason: 'not_owned' };
+    if (!outcome.ok) {
+      res.status(409).json({ error: ARMY_CHANGE_FAILURES[outcome.reason] });
+      return;
+    }
+    console.log(`Army change ${request.changeId} by ${player.name}: ${outcome.balance} credits left`);
+    res.json({ balance: outcome.balance });
+  } catch (error) {
+    console.error('Could not save an army change:', error);
+    res.status(500).json({ error: 'Failed to update army' });
+  }
+});
 
 // Track connected clients
 const clientsBySocket = new Map<WebSocket, Client>();
-const clientsByName = new Map<string, Client>();
+// One connection per account; signing in again replaces the older connection
+const clientsByPlayerId = new Map<string, Client>();
 
 // Helper to send a typed message to a client
 function send(socket: WebSocket, message: ServerToClient) {
@@ -39,14 +209,429 @@ function send(socket: WebSocket, message: ServerToClient) {
 
 // Broadcast presence to all authenticated clients
 function broadcastPresence() {
-  const users = Array.from(clientsByName.keys());
+  const users = Array.from(clientsByPlayerId.values(), ({ playerId, name }) => ({ playerId, name }));
   const presenceMessage: ServerToClient = { type: 'presence', users };
-  
+
   for (const client of clientsBySocket.values()) {
-    if (client.name) {
-      send(client.socket, presenceMessage);
-    }
+    send(client.socket, presenceMessage);
+  }
+}
+
+/**
+ * Everything the server checks before an army may fight: ruleset stats, supply, placement and
+ * behaviors (see validateArmy), then ownership when a roster is configured.
+ */
+async function validatePlayerArmy(client: Client, army: ArmyConfig): Promise<ArmyValidation<ArmyConfig[number]>> {
+  const validated = validateArmy(army, matchRuleset, deploymentArea);
+  if (validated.errors.length > 0 || !armyRoster) {
+    return validated;
+  }
+  return checkOwnership(validated.army, await armyRoster.ownedUnits(client.playerId));
+}
+
+/** Registers the socket as the token's account once the token checks out; anything else closes it */
+async function authenticate(socket: WebSocket, accessToken: string) {
+  if (!tokenVerifier) {
+    send(socket, { type: 'error', message: SIGN_IN_NOT_CONFIGURED });
+    socket.close();
+    return;
+  }
+  let player;
+  try {
+    player = await tokenVerifier.verify(accessToken);
+  } catch (error) {
+    console.error('Access token check failed:', error);
+    send(socket, {
+      type: 'error',
+      message: 'Could not check your sign-in right now, try again',
+    });
+    socket.close();
+    return;
+  }
+  if (!player) {
+    send(socket, {
+      type: 'error',
+      message: 'Invalid or expired access token. Sign in again.',
+    });
+    socket.close();
+    return;
+  }
+  // The socket may have gone while the token was being checked
+  if (socket.readyState !== WebSocket.OPEN || clientsBySocket.has(socket)) {
+    return;
+  }
+
+  const previous = clientsByPlayerId.get(player.playerId);
+  if (previous) {
+    console.log(`Replacing the older connection of ${previous.name} (${player.playerId})`);
+    previous.socket.close(SESSION_REPLACED_CLOSE_CODE, 'Signed in from another connection');
+  }
+
+  const client: Client = {
+    socket,
+    playerId: player.playerId,
+    name: player.name,
+    armyCheck: Promise.resolve(),
+    challenges: new Map(),
+  };
+  clientsBySocket.set(socket, client);
+  clientsByPlayerId.set(client.playerId, client);
+
+  console.log(`Client registered: ${client.name} (${client.playerId})`);
+  send(socket, { type: 'hello_ack', userId: client.playerId, ruleset: matchRuleset });
+  broadcastPresence();
+}
+
+function reportRosterFailure(socket: WebSocket, error: unknown) {
+  console.error('Army ownership lookup failed:', error);
+  send(socket, {
+    type: 'error',
+    message: 'Could not check your army right now, try again',
+  });
+}
+
+// Shows both players the two boards and starts the clock on whoever must adjust next
+function revealBoards(match: PendingMatch) {
+  const { matchId, state } = match;
+  const step = state.step as MindGameSide;
+  send(match.challenger.socket, {
+    type: 'board_reveal',
+    matchId,
+    step,
+    yourTurn: step === 'challenger',
+    yourArmy: state.challengerArmy,
+    opponentArmy: mirrorArmyForOpponent(state.defenderArmy, matchRuleset),
+    timeoutMs: adjustmentTimeoutMs,
+  });
+  send(match.defender.socket, {
+    type: 'board_reveal',
+    matchId,
+    step,
+    yourTurn: step === 'defender',
+    yourArmy: state.defenderArmy,
+    opponentArmy: mirrorArmyForOpponent(state.challengerArmy, matchRuleset),
+    timeoutMs: adjustmentTimeoutMs,
+  });
+  match.timer = setTimeout(() => {
+    console.log(`Match ${matchId}: ${step} ran out of time, passing`);
+    match.state = forfeitAdjustment(match.state, deploymentArea);
+    advanceMindGame(match);
+  }, adjustmentTimeoutMs);
+}
+
+function advanceMindGame(match: PendingMatch) {
+  clearTimeout(match.timer);
+  if (match.state.step === 'resolved') {
+    pendingMatches.delete(match.matchId);
+    resolveMatch(match.matchId, match.challenger, match.defender, match.state.challengerArmy, match.state.defenderArmy);
+  } else {
+    revealBoards(match);
+  }
+}
+
+// Runs the battle and sends each player the result from their side
+function resolveMatch(
+  matchId: string,
+  challenger: Client,
+  defender: Client,
+  armyA: ArmyConfig,
+  armyB: ArmyConfig
+): MatchWinner {
+  const { winner, timeline, summary, seed, map, resolutionMode, displacements, xpAwards } = runServerBattle(
+    armyA,
+    armyB,
+    { map: chooseBattleMap(), ruleset: matchRuleset }
+  );
+  if (displacements.length > 0) {
+    console.log(`Battle ${matchId}: ${displacements.length} units displaced from contested tiles`);
+  }
+  console.log(
+    `Battle ${matchId}: winner ${winner} by ${summary.reason} (seed ${seed}, rules ${matchRuleset.version}, ${resolutionMode}, ${map.id})`
+  );
+
+  const challengerXp = xpAwardsForPlayer(xpAwards, 'A');
+  const defenderXp = xpAwardsForPlayer(xpAwards, 'B');
+
+  // Send per-player timelines: A gets canonical, B gets mirrored
+  const battleResultA: ServerToClient = {
+    type: 'battle_result',
+    matchId,
+    winner,
+    seed,
+    rulesetVersion: matchRuleset.version,
+    battleType: 'pvp',
+    timeline,
+    summary,
+    map,
+    ruleset: matchRuleset,
+    displacements,
+    xpAwards: challengerXp,
+  };
+  const battleResultB: ServerToClient = {
+    type: 'battle_result',
+    matchId,
+    winner,
+    seed,
+    rulesetVersion: matchRuleset.version,
+    battleType: 'pvp',
+    timeline: mirrorTimelineForPlayerB(timeline, matchRuleset),
+    summary: mirrorSummaryForPlayerB(summary),
+    map: mirrorMapForPlayerB(map, matchRuleset),
+    ruleset: matchRuleset,
+    displacements: mirrorDisplacementsForPlayerB(displacements, matchRuleset),
+    xpAwards: defenderXp,
+  };
+
+  send(challenger.socket, battleResultA);
+  send(defender.socket, battleResultB);
+  grantUnitXp(matchId, challenger, challengerXp);
+  grantUnitXp(matchId, defender, defenderXp);
+  if (winner === 'A') {
+    grantWinReward(matchId, challenger, defender);
+  } else if (winner === 'B') {
+    grantWinReward(matchId, defender, challenger);
+  }
+  return winner;
+}
+
+// The ledger keeps one battle_win per player and match, so a repeated grant changes nothing
+function grantWinReward(matchId: string, winner: Client, loser: Client) {
+  if (!creditLedger) return;
+  const ledger = creditLedger;
+  winRewardFor(playerRanks, winner.playerId, loser.playerId)
+    .then(async (amount) => {
+      const { applied, balance } = await ledger.record({
+        playerId: winner.playerId,
+        amount,
+        reason: 'battle_win',
+        referenceId: matchId,
+      });
+      if (!applied || balance === undefined) {
+        console.log(`Battle ${matchId}: reward for ${winner.name} was already granted`);
+        return;
+      }
+      console.log(`Battle ${matchId}: ${winner.name} earned ${amount} credits (${balance} total)`);
+      send(winner.socket, { type: 'credits_awarded', matchId, amount, reason: 'battle_win', balance });
+    })
+    .catch((error) => console.error(`Battle ${matchId}: could not grant the reward to ${winner.name}:`, error));
+}
+
+// Experience is only ever written here; the ledger records each player's units once per match
+function grantUnitXp(matchId: string, player: Client, awards: UnitXpAward[]) {
+  if (!xpLedger || awards.length === 0) return;
+  xpLedger.record(player.playerId, matchId, awards).then(
+    (applied) => {
+      if (!applied) {
+        console.log(`Battle ${matchId}: experience for ${player.name} was already granted`);
+      }
+    },
+    (error) => console.error(`Battle ${matchId}: could not grant experience to ${player.name}:`, error)
+  );
+}
+
+function sendSeriesUpdate(series: Series, adjusting: boolean) {
+  const update = {
+    type: 'series_update' as const,
+    seriesId: series.seriesId,
+    results: series.results,
+    score: scoreSeries(series.results),
+    winner: seriesWinner(series.results),
+    nextMatch: adjusting ? series.results.length + 1 : null,
+    adjustmentLimit: SERIES_ADJUSTMENT_LIMIT,
+    timeoutMs: adjusting ? seriesAdjustmentTimeoutMs : 0,
+  };
+  send(series.challenger.socket, { ...update, yourArmy: series.armies.A });
+  send(series.defender.socket, { ...update, yourArmy: series.armies.B });
+}
+
+// Plays the next match of a series, then either ends it or opens the adjustment window
+function playSeriesMatch(series: Series) {
+  const matchId = randomUUID();
+  send(series.challenger.socket, {
+    type: 'battle_start',
+    matchId,
+    youAre: 'A',
+    opponentName: series.defender.name,
+    rulesetVersion: matchRuleset.version,
+    seriesId: series.seriesId,
+  });
+  send(series.defender.socket, {
+    type: 'battle_start',
+    matchId,
+    youAre: 'B',
+    opponentName: series.challenger.name,
+    rulesetVersion: matchRuleset.version,
+    seriesId: series.seriesId,
+  });
+
+  series.results.push(resolveMatch(matchId, series.challenger, series.defender, series.armies.A, series.armies.B));
+  const winner = seriesWinner(series.results);
+  if (winner) {
+    console.log(`Series ${series.seriesId}: ${winner === 'draw' ? 'drawn' : `won by ${winner}`} after ${series.results.length} matches`);
+    activeSeries.delete(series.seriesId);
+    sendSeriesUpdate(series, false);
+    return;
+  }
+
+  sendSeriesUpdate(series, true);
+  series.timer = setTimeout(() => startNextSeriesMatch(series), seriesAdjustmentTimeoutMs);
+}
+
+// Players who did not submit in time keep the army they last fought with
+function startNextSeriesMatch(series: Series) {
+  clearTimeout(series.timer);
+  series.timer = undefined;
+  series.armies = {
+    A: series.nextArmies.A ?? series.armies.A,
+    B: series.nextArmies.B ?? series.armies.B,
+  };
+  series.nextArmies = {};
+  playSeriesMatch(series);
+}
+
+// Plays a validated army against a handful of AI knights
+function runDemoBattle(client: Client, playerArmy: ArmyConfig) {
+  // Generate fake enemy army: 3-10 knights at random positions in the deployment zone
+  // (This simulates Player B placing units in their "player zone" from their perspective;
+  // the AI keeps to its own end even when the ruleset allows placing anywhere)
+  // The runServerBattle function will mirror these to the far end of the board automatically
+  const numKnights = Math.floor(Math.random() * 8) + 3; // 3 to 10
+  const usedPositions = new Set<string>();
+  const fakeEnemyArmy: ArmyConfig = [];
+  const knightTemplate = buildGddUnit('knight');
+  const { board } = matchRuleset;
+  const zoneStart = deploymentZoneStart(board);
+
+  for (let i = 0; i < numKnights; i++) {
+    let row: number, col: number, posKey: string;
+    // Find an unoccupied position in "player zone" from fake Player B's perspective
+    do {
+      row = Math.floor(Math.random() * board.deploymentRows) + zoneStart;
+      col = Math.floor(Math.random() * board.cols);
+      posKey = `${row}-${col}`;
+    } while (usedPositions.has(posKey));
+    usedPositions.add(posKey);
+
+    fakeEnemyArmy.push({
+      ...knightTemplate,
+      instanceId: `demo-knight-${i}`,
+      position: { row, col },
+      team: 'enemy',
+      currentHp: knightTemplate.hp,
+    });
+  }
+
+  console.log(`Demo battle: ${client.name} vs ${numKnights} AI knights`);
+
+  const matchId = randomUUID();
+
+  // Send battle_start to the player
+  send(client.socket, {
+    type: 'battle_start',
+    matchId,
+    youAre: 'A',
+    opponentName: 'Demo AI',
+    rulesetVersion: matchRuleset.version,
+  });
+
+  // Run the battle - player is A, fake enemy is B
+  const { winner, timeline, summary, seed, map, resolutionMode, displacements, xpAwards } = runServerBattle(
+    playerArmy,
+    fakeEnemyArmy,
+    { map: chooseBattleMap(), ruleset: matchRuleset }
+  );
+  console.log(
+    `Demo battle ${matchId}: winner ${winner} by ${summary.reason} (seed ${seed}, rules ${matchRuleset.version}, ${resolutionMode}, ${map.id})`
+  );
+
+  // Send result to the player (as player A, they get canonical timeline)
+  send(client.socket, {
+    type: 'battle_result',
+    matchId,
+    winner,
+    seed,
+    rulesetVersion: matchRuleset.version,
+    battleType: 'demo',
+    timeline,
+    summary,
+    map,
+    ruleset: matchRuleset,
+    displacements,
+    xpAwards: xpAwardsForPlayer(xpAwards, 'A'),
+  });
+}
+
+/** Starts the match or series for an accepted challenge, once both armies have been checked */
+function startAcceptedChallenge(challenger: Client, responder: Client, format: MatchFormat) {
+  // Either player may have left while their army was being checked
+  if (clientsBySocket.get(challenger.socket) !== challenger || clientsBySocket.get(responder.socket) !== responder) {
+    return;
+  }
+
+  const challengerArmy = challenger.army;
+  const responderArmy = responder.army;
+
+  // Check if both players have armies set
+  if (!challengerArmy || !responderArmy) {
+    send(responder.socket, {
+      type: 'error',
+      message: 'Both players must set their armies',
+    });
+    send(challenger.socket, {
+      type: 'error',
+      message: 'Both players must set their armies',
+    });
+    return;
   }
+
+  console.log(
+    `Challenge accepted: ${challenger.name} vs ${responder.name} (${format})`
+  );
+
+  // A series skips the mind game; players adjust between its matches instead
+  if (format === 'best_of_3') {
+    const series: Series = {
+      seriesId: randomUUID(),
+      challenger,
+      defender: responder,
+      armies: { A: challengerArmy, B: responderArmy },
+      results: [],
+      nextArmies: {},
+    };
+    activeSeries.set(series.seriesId, series);
+    playSeriesMatch(series);
+    return;
+  }
+
+  // Generate match ID
+  const matchId = randomUUID();
+
+  // Send battle_start to both players
+  send(challenger.socket, {
+    type: 'battle_start',
+    matchId,
+    youAre: 'A',
+    opponentName: responder.name,
+    rulesetVersion: matchRuleset.version,
+  });
+
+  send(responder.socket, {
+    type: 'battle_start',
+    matchId,
+    youAre: 'B',
+    opponentName: challenger.name,
+    rulesetVersion: matchRuleset.version,
+  });
+
+  // The battle waits for the mind game: challenger adjusts, then the defender answers
+  const match: PendingMatch = {
+    matchId,
+    challenger,
+    defender: responder,
+    state: startMindGame(challengerArmy, responderArmy),
+  };
+  pendingMatches.set(matchId, match);
+  revealBoards(match);
 }
 
 // Create WebSocket server, attach to HTTP server
@@ -66,36 +651,15 @@ wss.on('connection', (socket: WebSocket) => {
 
       switch (message.type) {
         case 'hello': {
-          const userId = randomUUID();
-          const { name } = message;
-
-          // Check if name is already taken
-          if (clientsByName.has(name)) {
+          if (clientsBySocket.has(socket)) {
             send(socket, {
               type: 'error',
-              message: 'Name already taken',
+              message: 'Already signed in',
             });
-            socket.close();
             return;
           }
 
-          // Register the client
-          const client: Client = {
-            socket,
-            userId,
-            name,
-          };
-
-          clientsBySocket.set(socket, client);
-          clientsByName.set(name, client);
-
-          console.log(`Client registered: ${name} (${userId})`);
-
-          // Send acknowledgment
-          send(socket, { type: 'hello_ack', userId });
-
-          // Broadcast updated presence
-          broadcastPresence();
+          authenticate(socket, String(message.accessToken ?? ''));
           break;
         }
 
@@ -109,8 +673,19 @@ wss.on('connection', (socket: WebSocket) => {
             return;
           }
 
-          client.army = message.army;
-          console.log(`Army set for client: ${client.name}`);
+          // A refused army clears the last one, so a match never starts with an army the player replaced
+          client.armyCheck = validatePlayerArmy(client, message.army).then(({ army, errors }) => {
+            if (errors.length > 0) {
+              client.army = undefined;
+              send(socket, { type: 'army_rejected', context: 'set_army', errors });
+              return;
+            }
+            client.army = army;
+            console.log(`Army set for client: ${client.name}`);
+          }, (error) => {
+            client.army = undefined;
+            reportRosterFailure(socket, error);
+          });
           break;
         }
 
@@ -124,10 +699,11 @@ wss.on('connection', (socket: WebSocket) => {
             return;
           }
 
-          const { opponentName } = message;
-          const opponent = clientsByName.get(opponentName);
+          const { opponentId } = message;
+          const format: MatchFormat = message.format === 'best_of_3' ? 'best_of_3' : 'single';
+          const opponent = clientsByPlayerId.get(opponentId);
 
-          if (!opponent) {
+          if (!opponent || opponent === challenger) {
             send(socket, {
               type: 'challenge_result',
               success: false,
@@ -136,12 +712,14 @@ wss.on('connection', (socket: WebSocket) => {
             return;
           }
 
-          console.log(`Challenge: ${challenger.name} -> ${opponentName}`);
+          console.log(`Challenge: ${challenger.name} -> ${opponent.name} (${format})`);
+          challenger.challenges.set(opponentId, format);
 
           // Notify opponent
           send(opponent.socket, {
             type: 'challenge_received',
-            from: challenger.name,
+            from: { playerId: challenger.playerId, name: challenger.name },
+            format,
           });
 
           // Notify challenger
@@ -162,71 +740,13 @@ wss.on('connection', (socket: WebSocket) => {
             return;
           }
 
-          const playerArmy = message.army;
-          if (!playerArmy || playerArmy.length === 0) {
-            send(socket, {
-              type: 'error',
-              message: 'You must provide an army for the demo battle.',
-            });
-            return;
-          }
-
-          // Generate fake enemy army: 3-10 knights at random positions in rows 6-11
-          // (This simulates Player B placing units in their "player zone" from their perspective)
-          // The runServerBattle function will mirror these to rows 0-5 automatically
-          const numKnights = Math.floor(Math.random() * 8) + 3; // 3 to 10
-          const usedPositions = new Set<string>();
-          const fakeEnemyArmy: ArmyConfig = [];
-          const knightTemplate = buildGddUnit('knight');
-
-          // Board is 12 rows x 6 cols, with player zones being rows 6-11 (6 rows)
-          const BOARD_COLS = 6;
-          const PLAYER_ROWS = 6;
-          const PLAYER_ZONE_START = 12 - PLAYER_ROWS; // = 6
-
-          for (let i = 0; i < numKnights; i++) {
-            let row: number, col: number, posKey: string;
-            // Find an unoccupied position in "player zone" (rows 6-11) from fake Player B's perspective
-            do {
-              row = Math.floor(Math.random() * PLAYER_ROWS) + PLAYER_ZONE_START; // rows 6-11
-              col = Math.floor(Math.random() * BOARD_COLS); // cols 0-5 (6 columns total)
-              posKey = `${row}-${col}`;
-            } while (usedPositions.has(posKey));
-            usedPositions.add(posKey);
-
-            fakeEnemyArmy.push({
-              ...knightTemplate,
-              instanceId: `demo-knight-${i}`,
-              position: { row, col },
-              team: 'enemy',
-              currentHp: knightTemplate.hp,
-            });
-          }
-
-          console.log(`Demo battle: ${client.name} vs ${numKnights} AI knights`);
-
-          const matchId = randomUUID();
-
-          // Send battle_start to the player
-          send(socket, {
-            type: 'battle_start',
-            matchId,
-            youAre: 'A',
-            opponentName: 'Demo AI',
-          });
-
-          // Run the battle - player is A, fake enemy is B
-          const { winner, timeline } = runServerBattle(playerArmy, fakeEnemyArmy);
-          console.log(`Demo battle ${matchId}: winner ${winner}`);
-
-          // Send result to the player (as player A, they get canonical timeline)
-          send(socket, {
-            type: 'battle_result',
-            matchId,
-            winner,
-            battleType: 'demo',
-            timeline,
-          });
+          validatePlayerArmy(client, message.army ?? []).then(({ army, errors }) => {
+            if (errors.length > 0) {
+              send(socket, { type: 'army_rejected', context: 'demo_battle', errors });
+              return;
+            }
+            runDemoBattle(client, army);
+          }, (error) => reportRosterFailure(socket, error));
           break;
         }
 
@@ -240,20 +760,23 @@ wss.on('connection', (socket: WebSocket) => {
             return;
           }
 
-          const { challengerName, accepted } = message;
-          const challenger = clientsByName.get(challengerName);
+          const { challengerId, accepted } = message;
+          const challenger = clientsByPlayerId.get(challengerId);
 
-          if (!challenger) {
+          if (!challenger || !challenger.challenges.has(responder.playerId)) {
             send(socket, {
               type: 'error',
-              message: 'Challenger not found',
+              message: 'No open challenge from that player',
             });
             return;
           }
 
+          const format = challenger.challenges.get(responder.playerId) ?? 'single';
+          challenger.challenges.delete(responder.playerId);
+
           if (!accepted) {
             console.log(
-              `Challenge declined: ${challengerName} <- ${responder.name}`
+              `Challenge declined: ${challenger.name} <- ${responder.name}`
             );
             send(challenger.socket, {
               type: 'challenge_result',
@@ -263,65 +786,90 @@ wss.on('connection', (socket: WebSocket) => {
             return;
           }
 
-          const challengerArmy = challenger.army;
-          const responderArmy = responder.army;
+          // An army sent just before accepting may still be under validation; wait for both
+          Promise.all([challenger.armyCheck, responder.armyCheck]).then(() =>
+            startAcceptedChallenge(challenger, responder, format)
+          );
+          break;
+        }
 
-          // Check if both players have armies set
-          if (!challengerArmy || !responderArmy) {
+        case 'submit_adjustment': {
+          const client = clientsBySocket.get(socket);
+          if (!client) {
             send(socket, {
               type: 'error',
-              message: 'Both players must set their armies',
+              message: 'Not authenticated. Send hello first.',
             });
-            send(challenger.socket, {
+            return;
+          }
+
+          const match = pendingMatches.get(message.matchId);
+          const side: MindGameSide | null =
+            match?.challenger === client ? 'challenger' : match?.defender === client ? 'defender' : null;
+          if (!match || !side) {
+            send(socket, {
               type: 'error',
-              message: 'Both players must set their armies',
+              message: 'No match waiting for your adjustment',
             });
             return;
           }
 
-          console.log(
-            `Challenge accepted: ${challengerName} vs ${responder.name}`
-          );
+          const { state, errors } = submitAdjustment(match.state, side, message.adjustment, deploymentArea);
+          if (errors.length > 0) {
+            send(socket, {
+              type: 'error',
+              message: `Invalid adjustment: ${errors.join('; ')}`,
+            });
+            return;
+          }
 
-          // Generate match ID
-          const matchId = randomUUID();
+          console.log(`Match ${match.matchId}: ${client.name} (${side}) made a ${message.adjustment.kind} adjustment`);
+          match.state = state;
+          advanceMindGame(match);
+          break;
+        }
 
-          // Send battle_start to both players
-          send(challenger.socket, {
-            type: 'battle_start',
-            matchId,
-            youAre: 'A',
-            opponentName: responder.name,
-          });
+        case 'submit_series_army': {
+          const client = clientsBySocket.get(socket);
+          if (!client) {
+            send(socket, {
+              type: 'error',
+              message: 'Not authenticated. Send hello first.',
+            });
+            return;
+          }
 
-          send(responder.socket, {
-            type: 'battle_start',
-            matchId,
-            youAre: 'B',
-            opponentName: challenger.name,
-          });
+          const series = activeSeries.get(message.seriesId);
+          const role = series?.challenger === client ? 'A' : series?.defender === client ? 'B' : null;
+          if (!series || !role || !series.timer) {
+            send(socket, {
+              type: 'error',
+              message: 'No series waiting for your army',
+            });
+            return;
+          }
+
+          // The roster is fixed for the series, so the army it started with already proved ownership
+          const { army: incoming, errors: armyErrors } = validateArmy(message.army, matchRuleset, deploymentArea);
+          if (armyErrors.length > 0) {
+            send(socket, { type: 'army_rejected', context: 'submit_series_army', errors: armyErrors });
+            return;
+          }
+          const { army, adjustments, errors } = reviseSeriesArmy(series.armies[role], incoming, deploymentArea);
+          if (errors.length > 0) {
+            send(socket, {
+              type: 'error',
+              message: `Invalid series army: ${errors.join('; ')}`,
+            });
+            return;
+          }
 
-          const { winner, timeline } = runServerBattle(challengerArmy, responderArmy);
-          console.log(`Battle ${matchId}: winner ${winner}`);
-
-          // Send per-player timelines: A gets canonical, B gets mirrored
-          const battleResultA: ServerToClient = {
-            type: 'battle_result',
-            matchId,
-            winner,
-            battleType: 'pvp',
-            timeline,
-          };
-          const battleResultB: ServerToClient = {
-            type: 'battle_result',
-            matchId,
-            winner,
-            battleType: 'pvp',
-            timeline: mirrorTimelineForPlayerB(timeline),
-          };
-
-          send(challenger.socket, battleResultA);
-          send(responder.socket, battleResultB);
+          series.nextArmies[role] = army;
+          send(socket, { type: 'series_army_accepted', seriesId: series.seriesId, adjustments });
+          console.log(`Series ${series.seriesId}: ${client.name} locked in ${adjustments} adjustments`);
+          if (series.nextArmies.A && series.nextArmies.B) {
+            startNextSeriesMatch(series);
+          }
           break;
         }
 
@@ -343,9 +891,30 @@ wss.on('connection', (socket: WebSocket) => {
   socket.on('close', () => {
     const client = clientsBySocket.get(socket);
     if (client) {
-      console.log(`Client disconnected: ${client.name} (${client.userId})`);
+      console.log(`Client disconnected: ${client.name} (${client.playerId})`);
       clientsBySocket.delete(socket);
-      clientsByName.delete(client.name);
+      // A newer connection for the same account may already have taken over
+      if (clientsByPlayerId.get(client.playerId) === client) {
+        clientsByPlayerId.delete(client.playerId);
+      }
+      // A series cannot go on without both players
+      for (const series of activeSeries.values()) {
+        if (series.challenger === client || series.defender === client) {
+          clearTimeout(series.timer);
+          activeSeries.delete(series.seriesId);
+          const opponent = series.challenger === client ? series.defender : series.challenger;
+          send(opponent.socket, { type: 'error', message: `${client.name} left; the series is over` });
+        }
+      }
+      // Nor a mind game: the battle is never run, so nobody is rewarded for it
+      for (const match of pendingMatches.values()) {
+        if (match.challenger === client || match.defender === client) {
+          clearTimeout(match.timer);
+          pendingMatches.delete(match.matchId);
+          const opponent = match.challenger === client ? match.defender : match.challenger;
+          send(opponent.socket, { type: 'error', message: `${client.name} left; the match is off` });
+        }
+      }
       broadcastPresence();
     } else {
       console.log('Unauthenticated client disconnected');
@@ -0,0 +1,49 @@
+import { calculateWinReward } from '../../shared/rewards';
+
+/** Where the server looks up players' ranks (GDD §8), which set what a win is worth */
+export interface PlayerRanks {
+  /** Null when the player has no recorded rank */
+  rankOf(playerId: string): Promise<number | null>;
+}
+
+/** Reads players.rank through Supabase's REST API with the service role key */
+export function createSupabaseRanks(url: string, serviceRoleKey: string): PlayerRanks {
+  return {
+    async rankOf(playerId) {
+      const query = new URLSearchParams({ select: 'rank', id: `eq.${playerId}` });
+      const response = await fetch(`${url}/rest/v1/players?${query}`, {
+        headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Rank lookup failed with ${response.status}: ${await response.text()}`);
+      }
+      const rows = (await response.json()) as { rank: number | null }[];
+      return rows[0]?.rank ?? null;
+    },
+  };
+}
+
+/** In-memory stand-in for players.rank, for tests and running without a database */
+export function createLocalRanks(ranksByPlayer: Record<string, number>): PlayerRanks {
+  return {
+    async rankOf(playerId) {
+      return Object.prototype.hasOwnProperty.call(ranksByPlayer, playerId) ? ranksByPlayer[playerId] : null;
+    },
+  };
+}
+
+/** What the winner earns against the loser; a rank that is not configured or cannot be read counts as equal */
+export async function winRewardFor(ranks: PlayerRanks | null, winnerId: string, loserId: string): Promise<number> {
+  if (!ranks) {
+    return calculateWinReward();
+  }
+  const [playerRank, opponentRank] = await Promise.all(
+    [winnerId, loserId].map((playerId) =>
+      ranks.rankOf(playerId).catch((error) => {
+        console.error(`Could not read the rank of ${playerId}:`, error);
+        return null;
+      })
+    )
+  );
+  return calculateWinReward({ playerRank, opponentRank });
+}
@@ -1,5 +1,20 @@
-import type { PlacedUnit, Team, BattleEngineModule } from './battleTypes';
+import type {
+  PlacedUnit,
+  Team,
+  BattleEngineModule,
+  BattleInitOptions,
+  BattleSummary,
+  ResolutionMode,
+  UnitXpAward,
+} from './battleTypes';
 import { resolve } from 'path';
+import { applyUnitUpgrades, applyVeterancy } from '../../shared/gddUnits';
+import { OPEN_FIELD, mirrorBattleMap } from '../../shared/battleMaps';
+import type { BattleMap } from '../../shared/battleMaps';
+import { mergeDeployments } from '../../shared/deployment';
+import type { PlacementDisplacement } from '../../shared/deployment';
+import { CURRENT_RULESET, applyRulesetStats } from '../../shared/ruleset';
+import type { Ruleset } from '../../shared/ruleset';
 
 // Prefer the built CJS bundle; fall back to compiled JS in dist if not built yet.
 const loadEngine = (): BattleEngineModule => {
@@ -14,9 +29,8 @@ const loadEngine = (): BattleEngineModule => {
 const {
   advanceBattleTick,
   initializeBattle,
-  BOARD_SIZE,
-  BOARD_COLS,
-  PLAYER_ROWS,
+  summarizeBattle,
+  awardBattleXp,
 } = loadEngine();
 import type { ArmyConfig, BattleTickResult } from './types';
 
@@ -25,13 +39,23 @@ type Position = { row: number; col: number };
 interface RunBattleResult {
   winner: 'A' | 'B' | 'draw';
   timeline: BattleTickResult[];
+  summary: BattleSummary;
+  /** Together with both armies, enough to re-simulate the battle exactly */
+  seed: number;
+  startingTeam: Team;
+  resolutionMode: ResolutionMode;
+  /** Terrain the battle was fought on, in canonical (Player A) coordinates */
+  map: BattleMap;
+  /** Board dimensions and other settings the battle was played under */
+  ruleset: Ruleset;
+  /** Units moved off tiles both players placed on, in canonical coordinates */
+  displacements: PlacementDisplacement[];
+  /** Experience for every unit on both sides; see xpAwardsForPlayer */
+  xpAwards: UnitXpAward[];
 }
 
 const TEAM_A: Team = 'player';
 const TEAM_B: Team = 'enemy';
-const MAX_ROW_INDEX = BOARD_SIZE - 1;
-
-const MAX_TICKS = 500;
 
 const cloneUnit = (unit: PlacedUnit, team: Team): PlacedUnit => ({
   ...unit,
@@ -41,23 +65,27 @@ const cloneUnit = (unit: PlacedUnit, team: Team): PlacedUnit => ({
   currentShield: unit.currentShield ?? unit.shield ?? 0,
 });
 
-const mirrorPositionVertically = (pos: Position): Position => ({
-  row: MAX_ROW_INDEX - pos.row,
+const mirrorPositionVertically = (pos: Position, rows: number): Position => ({
+  row: rows - 1 - pos.row,
   col: pos.col,
 });
 
 // Pre-battle normalization
+// - Base stats come from the ruleset, whatever the client sent; units start at full strength
+// - Purchased upgrades and veterancy levels add their stat bonuses
 // - Team A: keep positions as-is, set team to 'player'
-// - Team B: mirror vertically, set team to 'enemy'
+// - Team B: mirror vertically across the ruleset's board, set team to 'enemy'
 const normalizeArmy = (
   army: ArmyConfig,
   team: Team,
-  mirrorVertical: boolean
+  mirrorVertical: boolean,
+  ruleset: Ruleset
 ): PlacedUnit[] =>
   army.map((unit) => {
-    const cloned = cloneUnit(unit, team);
+    const base = applyRulesetStats({ ...unit, currentHp: undefined, currentShield: undefined }, ruleset);
+    const cloned = cloneUnit(applyVeterancy(applyUnitUpgrades(base)), team);
     if (mirrorVertical) {
-      cloned.position = mirrorPositionVertically(cloned.position);
+      cloned.position = mirrorPositionVertically(cloned.position, ruleset.board.rows);
     }
     return cloned;
   });
@@ -75,12 +103,29 @@ const mapWinner = (team: Team | null): 'A' | 'B' | 'draw' => {
 /**
  * Runs a full deterministic battle between two armies on the server.
  * Challenger units become Team A ('player'); responder units become Team B ('enemy').
+ * Pass the recorded seed (or starting team), map and ruleset to replay a match bit-for-bit;
+ * getRuleset(version) recovers the ruleset from the version stamped on the match.
+ * The ruleset supplies unit stats, the board, the tick limit and rule variants.
+ * Map coordinates are canonical: Team A deploys on the high rows.
+ * With free placement both armies may claim the same tile; mergeDeployments settles it before the battle starts.
  */
-export function runServerBattle(armyA: ArmyConfig, armyB: ArmyConfig): RunBattleResult {
-  const normalizedArmyA = normalizeArmy(armyA, TEAM_A, false);
-  const normalizedArmyB = normalizeArmy(armyB, TEAM_B, true);
+export function runServerBattle(
+  armyA: ArmyConfig,
+  armyB: ArmyConfig,
+  options: BattleInitOptions = {}
+): RunBattleResult {
+  const ruleset = options.ruleset ?? CURRENT_RULESET;
+  const normalizedArmyA = normalizeArmy(armyA, TEAM_A, false, ruleset);
+  const normalizedArmyB = normalizeArmy(armyB, TEAM_B, true, ruleset);
+  const { units: deployedUnits, displacements } = mergeDeployments(
+    [...normalizedArmyA, ...normalizedArmyB],
+    ruleset.board,
+    options.map ?? OPEN_FIELD
+  );
 
-  const initialState = initializeBattle([...normalizedArmyA, ...normalizedArmyB]);
+  const initialState = initializeBattle(deployedUnits, { ...options, ruleset });
+  const { seed, resolutionMode, map } = initialState;
+  const startingTeam = initialState.currentTeam;
   const timeline: BattleTickResult[] = [];
 
   // Push initial state as frame 0 (before any actions)
@@ -89,72 +134,167 @@ export function runServerBattle(armyA: ArmyConfig, armyB: ArmyConfig): RunBattle
     units: initialState.units.map(u => ({ ...u, position: { ...u.position } })),
     hits: [],
     hitEvents: [],
+    statusEvents: [],
     moves: [],
+    actions: [],
     winner: null,
+    endReason: null,
+    quietTurns: 0,
     currentTeam: initialState.currentTeam,
     turnNumber: 0, // Turn 0 = initial positioning, no actions yet
   });
 
   let currentState = initialState;
+  let quietTurns = 0;
   let safetyCounter = 0;
 
-  while (safetyCounter < MAX_TICKS) {
+  while (safetyCounter < ruleset.tickLimit) {
     const tickResult = advanceBattleTick(
       currentState.units,
       currentState.currentTeam,
-      currentState.turnNumber
+      currentState.turnNumber,
+      quietTurns,
+      resolutionMode,
+      map,
+      ruleset
     );
 
     timeline.push(tickResult);
 
-    if (tickResult.winner) {
-      return { winner: mapWinner(tickResult.winner), timeline };
+    // Breach and elimination carry a winner; a stalemate ends early as a draw
+    if (tickResult.endReason) {
+      return {
+        winner: mapWinner(tickResult.winner),
+        timeline,
+        summary: summarizeBattle(timeline, ruleset),
+        seed,
+        startingTeam,
+        resolutionMode,
+        map,
+        ruleset,
+        displacements,
+        xpAwards: awardBattleXp(timeline),
+      };
     }
 
+    quietTurns = tickResult.quietTurns;
+
     currentState = {
       units: tickResult.units,
       currentTeam: tickResult.currentTeam,
       turnNumber: tickResult.turnNumber,
+      seed,
+      resolutionMode,
+      map,
+      ruleset,
     };
 
     safetyCounter += 1;
   }
 
-  return { winner: 'draw', timeline };
+  return {
+    winner: 'draw',
+    timeline,
+    summary: summarizeBattle(timeline, ruleset),
+    seed,
+    startingTeam,
+    resolutionMode,
+    map,
+    ruleset,
+    displacements,
+    xpAwards: awardBattleXp(timeline),
+  };
 }
 
 // Post-battle timeline mirroring for Player B perspective
 const swapTeam = (team: Team): Team => (team === 'player' ? 'enemy' : 'player');
 
-const mirrorCellKey = (key: string): string => {
+const mirrorCellKey = (key: string, rows: number): string => {
   const [rowStr, colStr] = key.split('-');
   const row = Number(rowStr);
   const col = Number(colStr);
   if (Number.isNaN(row) || Number.isNaN(col)) return key;
-  return `${MAX_ROW_INDEX - row}-${col}`;
+  return `${rows - 1 - row}-${col}`;
 };
 
-const mirrorFrameForPlayerB = (frame: BattleTickResult): BattleTickResult => {
+const mirrorFrameForPlayerB = (frame: BattleTickResult, rows: number): BattleTickResult => {
   return {
     ...frame,
     units: frame.units.map((u) => ({
       ...u,
-      position: mirrorPositionVertically(u.position),
+      position: mirrorPositionVertically(u.position, rows),
       team: swapTeam(u.team),
     })),
-    hits: frame.hits.map(mirrorCellKey),
-    moves: frame.moves.map(mirrorCellKey),
+    hits: frame.hits.map((key) => mirrorCellKey(key, rows)),
+    moves: frame.moves.map((key) => mirrorCellKey(key, rows)),
     hitEvents: frame.hitEvents.map((e) => ({
       ...e,
       attackerTeam: swapTeam(e.attackerTeam),
-      attackerPosition: mirrorPositionVertically(e.attackerPosition),
-      targetPosition: mirrorPositionVertically(e.targetPosition),
+      attackerPosition: mirrorPositionVertically(e.attackerPosition, rows),
+      targetPosition: mirrorPositionVertically(e.targetPosition, rows),
+    })),
+    statusEvents: frame.statusEvents.map((e) => ({
+      ...e,
+      sourceTeam: swapTeam(e.sourceTeam),
+      sourcePosition: mirrorPositionVertically(e.sourcePosition, rows),
+      targetPosition: mirrorPositionVertically(e.targetPosition, rows),
+    })),
+    actions: frame.actions.map((a) => ({
+      ...a,
+      team: swapTeam(a.team),
+      from: mirrorPositionVertically(a.from, rows),
+      to: a.to ? mirrorPositionVertically(a.to, rows) : undefined,
     })),
     winner: frame.winner ? swapTeam(frame.winner) : null,
     currentTeam: swapTeam(frame.currentTeam),
   };
 };
 
-export function mirrorTimelineForPlayerB(timeline: BattleTickResult[]): BattleTickResult[] {
-  return timeline.map((f) => mirrorFrameForPlayerB(f));
+export function mirrorTimelineForPlayerB(timeline: BattleTickResult[], ruleset: Ruleset): BattleTickResult[] {
+  return timeline.map((f) => mirrorFrameForPlayerB(f, ruleset.board.rows));
+}
+
+export function mirrorSummaryForPlayerB(summary: BattleSummary): BattleSummary {
+  return {
+    ...summary,
+    winner: summary.winner ? swapTeam(summary.winner) : null,
+    teams: {
+      player: summary.teams.enemy,
+      enemy: summary.teams.player,
+    },
+  };
+}
+
+export function mirrorDisplacementsForPlayerB(
+  displacements: PlacementDisplacement[],
+  ruleset: Ruleset
+): PlacementDisplacement[] {
+  const rows = ruleset.board.rows;
+  return displacements.map((d) => ({
+    ...d,
+    team: swapTeam(d.team),
+    from: mirrorPositionVertically(d.from, rows),
+    to: d.to ? mirrorPositionVertically(d.to, rows) : null,
+  }));
+}
+
+// The opponent's army as the recipient sees it: at the far end of the board, on the enemy team
+export function mirrorArmyForOpponent(army: ArmyConfig, ruleset: Ruleset): ArmyConfig {
+  return army.map((unit) => ({
+    ...unit,
+    team: TEAM_B,
+    position: mirrorPositionVertically(unit.position, ruleset.board.rows),
+  }));
+}
+
+export function mirrorMapForPlayerB(map: BattleMap, ruleset: Ruleset): BattleMap {
+  return mirrorBattleMap(map, ruleset.board.rows);
+}
+
+// Each player only hears about their own units, reported from their perspective
+export function xpAwardsForPlayer(awards: UnitXpAward[], role: 'A' | 'B'): UnitXpAward[] {
+  const side = role === 'A' ? TEAM_A : TEAM_B;
+  return awards
+    .filter((award) => award.team === side)
+    .map((award) => ({ ...award, team: TEAM_A }));
 }
@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** The account behind a verified access token */
+export interface VerifiedPlayer {
+  /** Supabase user id; stable across connections and renames */
+  playerId: string;
+  name: string;
+}
+
+/** Checks the access token a client sends with hello */
+export interface TokenVerifier {
+  /** Resolves to null when the token is malformed, forged or expired */
+  verify(accessToken: string): Promise<VerifiedPlayer | null>;
+}
+
+interface TokenClaims {
+  sub?: string;
+  exp?: number;
+  email?: string;
+}
+
+// Same default name the client gives a new profile
+function displayName(claims: TokenClaims): string {
+  return claims.email?.split('@')[0] || 'Commander';
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verifies HS256 tokens signed with the project's JWT secret, without a round trip to Supabase.
+ * Tests sign their own tokens with a local secret.
+ */
+export function createJwtSecretVerifier(secret: string, now: () => number = Date.now): TokenVerifier {
+  return {
+    async verify(accessToken) {
+      const [header, payload, signature, ...rest] = accessToken.split('.');
+      if (!header || !payload || !signature || rest.length > 0) return null;
+
+      try {
+        if ((decodeSegment(header) as { alg?: string }).alg !== 'HS256') return null;
+        const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+        const actual = Buffer.from(signature, 'base64url');
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+        const claims = decodeSegment(payload) as TokenClaims;
+        if (!claims.sub || typeof claims.exp !== 'number' || claims.exp * 1000 <= now()) return null;
+        return { playerId: claims.sub, name: displayName(claims) };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/** Asks Supabase Auth who the token belongs to; works whatever the project signs tokens with */
+export function createSupabaseTokenVerifier(url: string, apiKey: string): TokenVerifier {
+  return {
+    async verify(accessToken) {
+      const response = await fetch(`${url}/auth/v1/user`, {
+        headers: { apikey: apiKey, Authorization: `Bearer ${accessToken}` },
+      });
+      if (response.status === 401 || response.status === 403) return null;
+      if (!response.ok) {
+        throw new Error(`Token check failed with ${response.status}: ${await response.text()}`);
+      }
+      const user = (await response.json()) as { id: string } & TokenClaims;
+      return { playerId: user.id, name: displayName(user) };
+    },
+  };
+}
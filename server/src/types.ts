@@ -1,31 +1,104 @@
-import type { PlacedUnit, BattleTickResult } from './battleTypes';
+import type { PlacedUnit, BattleTickResult, BattleSummary, UnitXpAward } from './battleTypes';
+import type { BattleMap } from '../../shared/battleMaps';
+import type { Ruleset } from '../../shared/ruleset';
+import type { PlacementDisplacement } from '../../shared/deployment';
+import type { ArmyAdjustment, MindGameSide } from '../../shared/mindGame';
+import type { MatchFormat, MatchWinner, SeriesScore } from '../../shared/series';
+import type { ArmyValidationError } from '../../shared/armyValidation';
+import type { CreditReason } from '../../shared/rewards';
 
 export type ArmyConfig = PlacedUnit[];
-export type { BattleTickResult };
+export type { BattleTickResult, BattleSummary, UnitXpAward };
+
+/** Close code for a connection replaced by a newer one for the same account; clients should not reconnect */
+export const SESSION_REPLACED_CLOSE_CODE = 4001;
+
+/** A signed-in player as other players see them */
+export interface PlayerSummary {
+  /** Supabase user id from the verified access token */
+  playerId: string;
+  name: string;
+}
 
 export type ClientToServer =
-  | { type: 'hello'; name: string }
+  /** Opens the session; accessToken is the player's Supabase access token */
+  | { type: 'hello'; accessToken: string }
   | { type: 'set_army'; army: ArmyConfig }
-  | { type: 'challenge'; opponentName: string }
-  | { type: 'challenge_response'; challengerName: string; accepted: boolean }
-  | { type: 'demo_battle'; army: ArmyConfig };
+  | { type: 'challenge'; opponentId: string; format?: MatchFormat }
+  | { type: 'challenge_response'; challengerId: string; accepted: boolean }
+  | { type: 'demo_battle'; army: ArmyConfig }
+  | { type: 'submit_adjustment'; matchId: string; adjustment: ArmyAdjustment }
+  | { type: 'submit_series_army'; seriesId: string; army: ArmyConfig };
 
 export type ServerToClient =
-  | { type: 'hello_ack'; userId: string }
-  | { type: 'presence'; users: string[] }
+  /** userId is the verified player id */
+  | { type: 'hello_ack'; userId: string; ruleset: Ruleset }
+  | { type: 'presence'; users: PlayerSummary[] }
   | { type: 'error'; message: string }
-  | { type: 'challenge_received'; from: string }
+  | {
+      type: 'army_rejected';
+      /** The message whose army was refused */
+      context: 'set_army' | 'demo_battle' | 'submit_series_army';
+      errors: ArmyValidationError[];
+    }
+  | { type: 'challenge_received'; from: PlayerSummary; format: MatchFormat }
   | { type: 'challenge_result'; success: boolean; message?: string }
+  | {
+      type: 'board_reveal';
+      matchId: string;
+      /** Whose single edit the match is waiting for */
+      step: MindGameSide;
+      yourTurn: boolean;
+      /** Both armies from the recipient's perspective; the opponent's units are on team 'enemy' */
+      yourArmy: ArmyConfig;
+      opponentArmy: ArmyConfig;
+      /** Time left for the step; running out counts as a pass */
+      timeoutMs: number;
+    }
   | {
       type: 'battle_start';
       matchId: string;
       youAre: 'A' | 'B';
       opponentName: string;
+      /** Ruleset version the match is played under; with the seed, map and armies it replays the match */
+      rulesetVersion: string;
+      /** Set when the match is part of a best-of-3 series */
+      seriesId?: string;
+    }
+  | {
+      type: 'series_update';
+      seriesId: string;
+      /** Winner of every match played so far, in order */
+      results: MatchWinner[];
+      score: SeriesScore;
+      /** Null while the series is still open */
+      winner: MatchWinner | null;
+      /** Number of the match the players are adjusting for; null once the series is over */
+      nextMatch: number | null;
+      adjustmentLimit: number;
+      /** The recipient's army as it fought the last match; adjustments are counted against it */
+      yourArmy: ArmyConfig;
+      /** Time left to submit an adjusted army; the last army is kept when it runs out */
+      timeoutMs: number;
     }
+  | { type: 'series_army_accepted'; seriesId: string; adjustments: number }
+  /** Sent once the ledger has recorded a reward; balance is the player's credits after it */
+  | { type: 'credits_awarded'; matchId: string; amount: number; reason: CreditReason; balance: number }
   | {
       type: 'battle_result';
       matchId: string;
       winner: 'A' | 'B' | 'draw';
+      seed?: number;
+      rulesetVersion?: string;
       battleType?: 'demo' | 'pvp';
       timeline?: BattleTickResult[];
+      summary?: BattleSummary;
+      /** Terrain, from the recipient's perspective */
+      map?: BattleMap;
+      /** Ruleset the battle was played under */
+      ruleset?: Ruleset;
+      /** Units moved off tiles both players placed on, from the recipient's perspective */
+      displacements?: PlacementDisplacement[];
+      /** Experience earned by the recipient's own units */
+      xpAwards?: UnitXpAward[];
     };
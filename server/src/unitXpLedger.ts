@@ -0,0 +1,61 @@
+import type { UnitXpAward } from './battleTypes';
+
+/** Where the server records the experience a player's units earned in a match */
+export interface UnitXpLedger {
+  /**
+   * Adds each award to the player's own unit with that instance id, once per match: returns false
+   * when the match was already recorded for the player. Awards for units they do not own are dropped.
+   */
+  record(playerId: string, matchId: string, awards: UnitXpAward[]): Promise<boolean>;
+}
+
+/**
+ * Calls the record_unit_xp database function (see the server README), which logs the match in
+ * unit_xp_awards and adds to player_army_units.xp in one transaction. Needs the service role key.
+ */
+export function createSupabaseXpLedger(url: string, serviceRoleKey: string): UnitXpLedger {
+  return {
+    async record(playerId, matchId, awards) {
+      const response = await fetch(`${url}/rest/v1/rpc/record_unit_xp`, {
+        method: 'POST',
+        headers: {
+          apikey: serviceRoleKey,
+          Authorization: `Bearer ${serviceRoleKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          p_player_id: playerId,
+          p_match_id: matchId,
+          p_awards: awards.map(({ instanceId, xp }) => ({ instance_id: instanceId, xp })),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Experience update failed with ${response.status}: ${await response.text()}`);
+      }
+      return (await response.json()) as boolean;
+    },
+  };
+}
+
+/** In-memory stand-in for unit_xp_awards and player_army_units.xp, keyed by player then instance id */
+export function createLocalXpLedger(xpByPlayer: Record<string, Record<string, number>> = {}) {
+  const recordedMatches = new Set<string>();
+  const ledger: UnitXpLedger & { xpByPlayer: Record<string, Record<string, number>> } = {
+    xpByPlayer,
+    async record(playerId, matchId, awards) {
+      const key = `${playerId}:${matchId}`;
+      if (recordedMatches.has(key)) {
+        return false;
+      }
+      recordedMatches.add(key);
+      const units = xpByPlayer[playerId] ?? {};
+      for (const { instanceId, xp } of awards) {
+        if (Object.prototype.hasOwnProperty.call(units, instanceId) && xp > 0) {
+          units[instanceId] += xp;
+        }
+      }
+      return true;
+    },
+  };
+  return ledger;
+}
@@ -0,0 +1,172 @@
+// Server-side army checks: nothing a client sends about its units is trusted beyond which unit
+// stands where and how it behaves
+import { buildGddUnit, convertLegacyBehaviors, getOwnedUpgrades, validateBehaviorConfig } from './gddUnits';
+import type { BehaviorConfig, GddUnitId, UnitLike, UnitUpgradeId } from './gddUnits';
+import { isInDeploymentArea } from './deployment';
+import type { DeploymentArea } from './deployment';
+import type { Ruleset } from './ruleset';
+import { sanitizeStrategyRules } from '../src/engine/strategyRules';
+import type { StrategyRule } from '../src/types';
+
+export type ArmyErrorCode =
+  | 'malformed_army'
+  | 'malformed_unit'
+  | 'empty_army'
+  | 'unknown_unit'
+  | 'duplicate_unit'
+  | 'out_of_bounds'
+  | 'overlapping_units'
+  | 'over_supply'
+  | 'invalid_behavior'
+  | 'not_owned';
+
+export interface ArmyValidationError {
+  code: ArmyErrorCode;
+  message: string;
+  /** The offending unit, when the problem is with one unit */
+  instanceId?: string;
+}
+
+interface SubmittedUnit {
+  instanceId: string;
+  id: string;
+}
+
+export interface ArmyValidation<T> {
+  army: T[];
+  errors: ArmyValidationError[];
+}
+
+/** A unit as recorded in player_army_units */
+export interface OwnedUnit {
+  instanceId: string;
+  unitTypeId: string;
+  upgrades: readonly unknown[];
+  xp: number;
+}
+
+/** A unit rebuilt by the server: GDD stats plus only the fields a player chooses */
+export type ValidatedUnit = UnitLike & {
+  instanceId: string;
+  team: 'player';
+  position: { row: number; col: number };
+  behaviorConfig: BehaviorConfig;
+  strategyRules: StrategyRule[];
+  upgrades: UnitUpgradeId[];
+  xp: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Checks an army against the ruleset and rebuilds every unit from the GDD definitions, keeping only
+ * its type, tile, behaviors and strategy rules; anything else the client sent is dropped, and units
+ * start without upgrades or experience. Typed behavior configs are validated as sent; older clients' selectedBehaviors labels are
+ * converted. Positions are in the player's own coordinates. Input of any shape is reported, never thrown on.
+ */
+export const validateArmy = (army: unknown, ruleset: Ruleset, area: DeploymentArea): ArmyValidation<ValidatedUnit> => {
+  if (!Array.isArray(army)) {
+    return { army: [], errors: [{ code: 'malformed_army', message: 'The army is not a list of units' }] };
+  }
+
+  const errors: ArmyValidationError[] = [];
+  if (army.length === 0) {
+    errors.push({ code: 'empty_army', message: 'The army has no units' });
+  }
+
+  const instanceIds = new Set<string>();
+  const tiles = new Set<string>();
+  let supply = 0;
+
+  const rebuilt = army.flatMap((unit: unknown, index): ValidatedUnit[] => {
+    if (!isRecord(unit) || typeof unit.instanceId !== 'string' || typeof unit.id !== 'string') {
+      errors.push({ code: 'malformed_unit', message: `Unit ${index + 1} needs an instanceId and a unit type` });
+      return [];
+    }
+    const { instanceId, id, position } = unit;
+    if (instanceIds.has(instanceId)) {
+      errors.push({ code: 'duplicate_unit', message: `${instanceId} is listed more than once`, instanceId });
+    }
+    instanceIds.add(instanceId);
+
+    const tile =
+      isRecord(position) && Number.isInteger(position.row) && Number.isInteger(position.col)
+        ? { row: position.row as number, col: position.col as number }
+        : null;
+    if (!tile || !isInDeploymentArea(area, tile)) {
+      errors.push({ code: 'out_of_bounds', message: `${instanceId} is outside the deployment area`, instanceId });
+    } else {
+      const key = `${tile.row}-${tile.col}`;
+      if (tiles.has(key)) {
+        errors.push({ code: 'overlapping_units', message: `${instanceId} shares tile ${key} with another unit`, instanceId });
+      }
+      tiles.add(key);
+    }
+
+    // An own-property lookup, so that "constructor" and friends are not unit types
+    const stats = Object.prototype.hasOwnProperty.call(ruleset.units, id)
+      ? (ruleset.units as Partial<Record<string, { supplyCost: number }>>)[id]
+      : undefined;
+    if (!stats) {
+      errors.push({ code: 'unknown_unit', message: `${instanceId} is an unknown unit type "${id}"`, instanceId });
+      return [];
+    }
+    supply += stats.supplyCost;
+
+    let behaviorConfig: BehaviorConfig;
+    let behaviorErrors: string[];
+    if (isRecord(unit.behaviorConfig)) {
+      behaviorConfig = unit.behaviorConfig as unknown as BehaviorConfig;
+      behaviorErrors = validateBehaviorConfig(id, behaviorConfig);
+    } else {
+      const labels = Array.isArray(unit.selectedBehaviors) ? unit.selectedBehaviors : [];
+      const conversion = convertLegacyBehaviors(id, labels.filter((label): label is string => typeof label === 'string'));
+      behaviorConfig = conversion.config;
+      behaviorErrors = conversion.errors;
+    }
+    errors.push(
+      ...behaviorErrors.map((message) => ({ code: 'invalid_behavior' as const, message: `${instanceId}: ${message}`, instanceId }))
+    );
+
+    if (!tile) return [];
+    return [
+      {
+        ...buildGddUnit(id as GddUnitId),
+        instanceId,
+        team: 'player',
+        position: tile,
+        behaviorConfig: { ...behaviorConfig },
+        strategyRules: sanitizeStrategyRules(unit.strategyRules, id),
+        // Only the roster can vouch for these; checkOwnership fills in the recorded ones
+        upgrades: [],
+        xp: 0
+      }
+    ];
+  });
+
+  if (supply > ruleset.supplyCap) {
+    errors.push({ code: 'over_supply', message: `The army costs ${supply} supply; the cap is ${ruleset.supplyCap}` });
+  }
+
+  return errors.length > 0 ? { army: [], errors } : { army: rebuilt, errors };
+};
+
+/**
+ * Checks that every unit is one the player owns, as the same unit type, and replaces the
+ * upgrades and experience the client claimed with the recorded ones.
+ */
+export const checkOwnership = <T extends SubmittedUnit>(army: T[], owned: OwnedUnit[]): ArmyValidation<T> => {
+  const ownedById = new Map(owned.map((unit) => [unit.instanceId, unit]));
+  const errors: ArmyValidationError[] = [];
+
+  const checked = army.map((unit) => {
+    const record = ownedById.get(unit.instanceId);
+    if (!record || record.unitTypeId.toLowerCase() !== unit.id) {
+      errors.push({ code: 'not_owned', message: `${unit.instanceId} is not a ${unit.id} in your army`, instanceId: unit.instanceId });
+      return unit;
+    }
+    return { ...unit, upgrades: getOwnedUpgrades(unit.id, record.upgrades), xp: record.xp };
+  });
+
+  return errors.length > 0 ? { army, errors } : { army: checked, errors };
+};
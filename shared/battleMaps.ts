@@ -0,0 +1,106 @@
+// Battle maps: terrain laid over the board, shared by the engine, the server and the 3D board
+import type { BoardDimensions } from './ruleset';
+
+/**
+ * - rock: impassable; arrows fly over it
+ * - wall: impassable and blocks arrows
+ * - mud: a unit that steps in is stuck through its team's next turn
+ * - spikes: a unit that steps in takes damage straight to HP
+ */
+export type TerrainType = 'rock' | 'wall' | 'mud' | 'spikes';
+
+export interface TerrainRule {
+  passable: boolean;
+  blocksArrows: boolean;
+  /** Own turns a unit is stuck after entering the tile */
+  slowTurns: number;
+  /** HP lost when a unit enters the tile; shields and defense do not help */
+  damage: number;
+}
+
+export const TERRAIN_RULES: Record<TerrainType, TerrainRule> = {
+  rock: { passable: false, blocksArrows: false, slowTurns: 0, damage: 0 },
+  wall: { passable: false, blocksArrows: true, slowTurns: 0, damage: 0 },
+  mud: { passable: true, blocksArrows: false, slowTurns: 1, damage: 0 },
+  spikes: { passable: true, blocksArrows: false, slowTurns: 0, damage: 1 }
+};
+
+export interface TerrainTile {
+  row: number;
+  col: number;
+  type: TerrainType;
+}
+
+/** Tiles are in canonical board coordinates (player A deploys on the high rows) */
+export interface BattleMap {
+  id: string;
+  name: string;
+  tiles: TerrainTile[];
+}
+
+export const OPEN_FIELD: BattleMap = { id: 'open-field', name: 'Open Field', tiles: [] };
+
+// Every layout is symmetric across the middle of the board so neither side is favored
+export const BATTLE_MAPS: BattleMap[] = [
+  OPEN_FIELD,
+  {
+    id: 'twin-rocks',
+    name: 'Twin Rocks',
+    tiles: [
+      { row: 5, col: 1, type: 'rock' },
+      { row: 6, col: 1, type: 'rock' },
+      { row: 5, col: 4, type: 'rock' },
+      { row: 6, col: 4, type: 'rock' }
+    ]
+  },
+  {
+    id: 'ramparts',
+    name: 'Ramparts',
+    tiles: [
+      { row: 4, col: 2, type: 'wall' },
+      { row: 4, col: 3, type: 'wall' },
+      { row: 7, col: 2, type: 'wall' },
+      { row: 7, col: 3, type: 'wall' },
+      { row: 5, col: 0, type: 'mud' },
+      { row: 6, col: 0, type: 'mud' },
+      { row: 5, col: 5, type: 'mud' },
+      { row: 6, col: 5, type: 'mud' }
+    ]
+  },
+  {
+    id: 'marsh',
+    name: 'Marsh',
+    tiles: [
+      { row: 5, col: 2, type: 'mud' },
+      { row: 5, col: 3, type: 'mud' },
+      { row: 6, col: 2, type: 'mud' },
+      { row: 6, col: 3, type: 'mud' },
+      { row: 5, col: 0, type: 'spikes' },
+      { row: 6, col: 0, type: 'spikes' },
+      { row: 5, col: 5, type: 'spikes' },
+      { row: 6, col: 5, type: 'spikes' }
+    ]
+  }
+];
+
+export const getBattleMap = (id: string | null | undefined): BattleMap | undefined =>
+  BATTLE_MAPS.find((map) => map.id === id);
+
+export const getTerrainAt = (map: BattleMap, row: number, col: number): TerrainType | undefined =>
+  map.tiles.find((tile) => tile.row === row && tile.col === col)?.type;
+
+/** A map fits a board when every tile is on it and the layout mirrors onto itself, so neither side is favored */
+export const fitsBoard = (map: BattleMap, board: BoardDimensions): boolean =>
+  map.tiles.every((tile) =>
+    tile.row >= 0 &&
+    tile.row < board.rows &&
+    tile.col >= 0 &&
+    tile.col < board.cols &&
+    getTerrainAt(map, board.rows - 1 - tile.row, tile.col) === tile.type
+  );
+
+/** Flips a map top-to-bottom for the player who sees the board from the other side */
+export const mirrorBattleMap = (map: BattleMap, boardRows: number): BattleMap => ({
+  ...map,
+  tiles: map.tiles.map((tile) => ({ ...tile, row: boardRows - 1 - tile.row }))
+});
@@ -0,0 +1,35 @@
+// Unit prices in credits; the client shows them and the server charges them
+import { GDD_UNIT_DEFS, getUpgradeCost, type GddUnitId } from './gddUnits';
+
+type UnitCostLike = { unitTypeId: string; upgrades?: readonly unknown[] };
+
+export const isGddUnitId = (unitTypeId: string): unitTypeId is GddUnitId =>
+  Object.prototype.hasOwnProperty.call(GDD_UNIT_DEFS, unitTypeId);
+
+export const getUnitCost = (unitTypeId: string): number => {
+  if (!unitTypeId) {
+    console.warn('getUnitCost: missing unitTypeId');
+    return 0;
+  }
+  
+  // Try exact match first
+  if (isGddUnitId(unitTypeId)) {
+    return GDD_UNIT_DEFS[unitTypeId].creditCost;
+  }
+  
+  // Try lowercase match (in case DB stores capitalized)
+  const lowerCaseId = unitTypeId.toLowerCase();
+  if (isGddUnitId(lowerCaseId as GddUnitId)) {
+    return GDD_UNIT_DEFS[lowerCaseId as GddUnitId].creditCost;
+  }
+  
+  console.warn(`getUnitCost: unknown unitTypeId "${unitTypeId}"`);
+  return 0;
+};
+
+export const calculateArmyCost = (units: UnitCostLike[]): number => {
+  return units.reduce(
+    (total, unit) => total + getUnitCost(unit.unitTypeId) + getUpgradeCost(unit.unitTypeId.toLowerCase(), unit.upgrades),
+    0
+  );
+};
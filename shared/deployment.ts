@@ -0,0 +1,130 @@
+// Deployment: where a side may place its units, and merging two independently placed armies
+import { TERRAIN_RULES, getTerrainAt } from './battleMaps';
+import type { BattleMap } from './battleMaps';
+import { deploymentZoneStart } from './ruleset';
+import type { BoardDimensions, Ruleset } from './ruleset';
+
+type Position = { row: number; col: number };
+
+/** Rows a side may place on, from its own point of view (its back row is the last row) */
+export interface DeploymentArea {
+  firstRow: number;
+  rows: number;
+  cols: number;
+}
+
+/**
+ * Free placement still keeps the opponent's back row (row 0 from a side's own point of view) off
+ * limits: a unit placed there would win by breach before the battle starts.
+ */
+export const getDeploymentArea = (ruleset: Ruleset): DeploymentArea =>
+  ruleset.variants.placement === 'anywhere'
+    ? { firstRow: 1, rows: ruleset.board.rows - 1, cols: ruleset.board.cols }
+    : { firstRow: deploymentZoneStart(ruleset.board), rows: ruleset.board.deploymentRows, cols: ruleset.board.cols };
+
+export const isInDeploymentArea = (area: DeploymentArea, position: Position): boolean =>
+  position.row >= area.firstRow &&
+  position.row < area.firstRow + area.rows &&
+  position.col >= 0 &&
+  position.col < area.cols;
+
+interface DeployedUnit {
+  instanceId: string;
+  team: 'player' | 'enemy';
+  position: Position;
+}
+
+/** A unit moved off a tile both sides claimed; `to` is null when no free tile was left */
+export interface PlacementDisplacement {
+  instanceId: string;
+  team: 'player' | 'enemy';
+  from: Position;
+  to: Position | null;
+}
+
+export interface MergedDeployment<T extends DeployedUnit> {
+  units: T[];
+  displacements: PlacementDisplacement[];
+}
+
+const positionKey = (position: Position): string => `${position.row}-${position.col}`;
+
+// Free tiles nearest to `from`, preferring the unit's own side of the board (player: high rows), then the left.
+// The opponent's back row is never offered, as a unit there would breach on the first turn
+const fallbackTiles = (from: Position, team: DeployedUnit['team'], board: BoardDimensions): Position[] => {
+  const homeward = team === 'player' ? 1 : -1;
+  const tiles: Position[] = [];
+  const firstRow = team === 'player' ? 1 : 0;
+  const lastRow = team === 'player' ? board.rows - 1 : board.rows - 2;
+  for (let row = firstRow; row <= lastRow; row += 1) {
+    for (let col = 0; col < board.cols; col += 1) {
+      tiles.push({ row, col });
+    }
+  }
+  const distance = (tile: Position) => Math.abs(tile.row - from.row) + Math.abs(tile.col - from.col);
+  return tiles.sort(
+    (a, b) =>
+      distance(a) - distance(b) ||
+      (b.row - a.row) * homeward ||
+      a.col - b.col
+  );
+};
+
+/**
+ * Merges two armies placed independently on the same board (GDD 5.3), in canonical coordinates.
+ * Neither side wins a tile both claimed: every unit on it falls back to the nearest free passable
+ * tile, leaning towards its own end of the board, so the outcome does not depend on who placed first.
+ * Contested tiles are settled top row first, left to right; a unit with nowhere to go sits the battle out.
+ */
+export const mergeDeployments = <T extends DeployedUnit>(
+  units: T[],
+  board: BoardDimensions,
+  map: BattleMap
+): MergedDeployment<T> => {
+  const claims = new Map<string, T[]>();
+  units.forEach((unit) => {
+    const key = positionKey(unit.position);
+    claims.set(key, [...(claims.get(key) ?? []), unit]);
+  });
+
+  const occupied = new Set<string>();
+  const contested: T[] = [];
+  claims.forEach((claimants, key) => {
+    if (claimants.length === 1) {
+      occupied.add(key);
+    } else {
+      contested.push(...claimants);
+    }
+  });
+  contested.sort(
+    (a, b) =>
+      a.position.row - b.position.row ||
+      a.position.col - b.position.col ||
+      (a.team === b.team ? 0 : a.team === 'player' ? -1 : 1) ||
+      a.instanceId.localeCompare(b.instanceId)
+  );
+
+  const relocated = new Map<T, Position | null>();
+  const displacements: PlacementDisplacement[] = contested.map((unit) => {
+    const to =
+      fallbackTiles(unit.position, unit.team, board).find((tile) => {
+        const terrain = getTerrainAt(map, tile.row, tile.col);
+        return !occupied.has(positionKey(tile)) && !claims.has(positionKey(tile)) && (!terrain || TERRAIN_RULES[terrain].passable);
+      }) ?? null;
+    if (to) {
+      occupied.add(positionKey(to));
+    }
+    relocated.set(unit, to);
+    return { instanceId: unit.instanceId, team: unit.team, from: { ...unit.position }, to };
+  });
+
+  const merged = units.flatMap((unit) => {
+    if (!relocated.has(unit)) {
+      return [unit];
+    }
+    const to = relocated.get(unit);
+    return to ? [{ ...unit, position: to }] : [];
+  });
+
+  return { units: merged, displacements };
+};
@@ -1,6 +1,107 @@
 // Single source of truth for unit stats based on GDD v1.0
 export type GddUnitId = 'recruit' | 'archer' | 'zombie' | 'knight' | 'beast' | 'mage' | 'giant';
 
+/** Board offset measured from a unit along its own direction of travel */
+export interface TileOffset {
+  forward: number; // tiles toward the opposing back row
+  lateral: number; // columns; negative is left
+}
+
+/** What a successful strike does: deal damage up close, deal damage from range, or paralyze */
+export type UnitAttackType = 'melee' | 'ranged' | 'paralyze';
+
+/**
+ * Movement and attack shapes for a unit. The battle engine executes these offsets and the
+ * Army Builder preview renders them, so the two can never disagree.
+ */
+export interface UnitPattern {
+  /** Tiles the unit may step to; behavior settings choose among them */
+  moves: TileOffset[];
+  /** Tiles struck up close, in priority order */
+  melee: TileOffset[];
+  /** Tiles reached by ranged attacks, nearest rows first */
+  ranged: TileOffset[];
+  attackType: UnitAttackType;
+  /** Short preview captions shown next to the pattern */
+  notes: {
+    movement: string;
+    attack: string;
+  };
+}
+
+const FORWARD: TileOffset = { forward: 1, lateral: 0 };
+const LEFT: TileOffset = { forward: 0, lateral: -1 };
+const RIGHT: TileOffset = { forward: 0, lateral: 1 };
+
+/** Rectangular block of offsets, inclusive on both axes */
+const tileBlock = (forwardFrom: number, forwardTo: number, lateralFrom: number, lateralTo: number): TileOffset[] => {
+  const offsets: TileOffset[] = [];
+  for (let forward = forwardFrom; forward <= forwardTo; forward += 1) {
+    for (let lateral = lateralFrom; lateral <= lateralTo; lateral += 1) {
+      offsets.push({ forward, lateral });
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Version of the behavior schema below. Bump it whenever a category or value changes meaning so
+ * saved configs written against an older shape are rejected instead of silently misread.
+ */
+export const BEHAVIOR_SCHEMA_VERSION = 1;
+
+/** Every behavior category a unit can expose, with the values the engine understands */
+export interface BehaviorValues {
+  laneLogic: 'aggressive' | 'opportunistic' | 'runner';
+  targetPreference: 'weakest' | 'strongest';
+  priority: 'shooting' | 'advancing';
+  attackArc: 'left' | 'center' | 'right';
+  sidestep: 'left' | 'right';
+}
+
+export type BehaviorKey = keyof BehaviorValues;
+
+/** A unit's chosen behavior values; categories left out fall back to the unit's defaults */
+export type BehaviorConfig = { version: number } & Partial<BehaviorValues>;
+
+export interface BehaviorOption<K extends BehaviorKey = BehaviorKey> {
+  value: BehaviorValues[K];
+  label: string;
+  /** Free-text label older clients sent in selectedBehaviors */
+  legacyLabel: string;
+}
+
+interface BehaviorCategoryOf<K extends BehaviorKey> {
+  key: K;
+  label: string;
+  options: BehaviorOption<K>[];
+  defaultValue: BehaviorValues[K];
+}
+
+export type BehaviorCategory = { [K in BehaviorKey]: BehaviorCategoryOf<K> }[BehaviorKey];
+
+/** Permanent per-instance improvements bought with credits (GDD 6.0) */
+export type UnitUpgradeId = 'shield' | 'damage' | 'range';
+
+export interface UnitUpgradeDefinition {
+  label: string;
+  description: string;
+  creditCost: number;
+  /** Added to the unit's stats when its army is normalized for battle */
+  bonus: Partial<Record<'shield' | 'damage' | 'range', number>>;
+}
+
+export const UNIT_UPGRADES: Record<UnitUpgradeId, UnitUpgradeDefinition> = {
+  shield: { label: 'Reinforced Shield', description: '+1 shield', creditCost: 30, bonus: { shield: 1 } },
+  damage: { label: 'Honed Weapons', description: '+1 damage', creditCost: 40, bonus: { damage: 1 } },
+  range: {
+    label: 'Longshot',
+    description: 'Ranged zone reaches one row farther',
+    creditCost: 35,
+    bonus: { range: 1 }
+  }
+};
+
 export interface GddUnitDefinition {
   name: string;
   icon: string;
@@ -13,7 +114,11 @@ export interface GddUnitDefinition {
   supplyCost: number;
   creditCost: number;
   reviveCost: number;
-  behaviorOptions: string[];
+  /** Configurable behavior categories, in the order the logic panel lists them */
+  behaviors: BehaviorCategory[];
+  /** Upgrades an instance of this unit may buy, each at most once */
+  upgrades: UnitUpgradeId[];
+  pattern: UnitPattern;
   description?: string;
 }
 
@@ -49,7 +154,29 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     supplyCost: 1,
     creditCost: 0,
     reviveCost: 0,
-    behaviorOptions: ['Aggressive', 'Opportunistic', 'Runner'],
+    behaviors: [
+      {
+        key: 'laneLogic',
+        label: 'Lane Logic',
+        options: [
+          { value: 'aggressive', label: 'Aggressive', legacyLabel: 'Aggressive' },
+          { value: 'opportunistic', label: 'Opportunistic', legacyLabel: 'Opportunistic' },
+          { value: 'runner', label: 'Runner', legacyLabel: 'Runner' }
+        ],
+        defaultValue: 'aggressive'
+      }
+    ],
+    upgrades: ['shield'],
+    pattern: {
+      moves: [FORWARD, LEFT, RIGHT],
+      melee: [FORWARD],
+      ranged: [],
+      attackType: 'melee',
+      notes: {
+        movement: 'Marches forward; Opportunistic and Runner settings unlock sidesteps.',
+        attack: 'Strikes the tile directly ahead.'
+      }
+    },
     description: 'Basic filler unit with selectable lane logic.'
   },
   knight: {
@@ -64,7 +191,18 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     supplyCost: 3,
     creditCost: 40,
     reviveCost: 10,
-    behaviorOptions: [],
+    behaviors: [],
+    upgrades: ['shield', 'damage'],
+    pattern: {
+      moves: [FORWARD],
+      melee: [FORWARD],
+      ranged: [],
+      attackType: 'melee',
+      notes: {
+        movement: 'Advances one tile straight ahead.',
+        attack: 'Strikes the tile directly ahead.'
+      }
+    },
     description: 'Durable frontline with a small shield.'
   },
   beast: {
@@ -79,7 +217,18 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     supplyCost: 4,
     creditCost: 60,
     reviveCost: 15,
-    behaviorOptions: [],
+    behaviors: [],
+    upgrades: ['shield', 'damage'],
+    pattern: {
+      moves: [FORWARD],
+      melee: [FORWARD],
+      ranged: [],
+      attackType: 'melee',
+      notes: {
+        movement: 'Advances one tile straight ahead.',
+        attack: 'Mauls the tile directly ahead.'
+      }
+    },
     description: 'Heavy bruiser that trades blows up close.'
   },
   archer: {
@@ -94,7 +243,38 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     supplyCost: 2,
     creditCost: 25,
     reviveCost: 6,
-    behaviorOptions: ['Target Preference: Weakest', 'Target Preference: Strongest', 'Priority: Shooting', 'Priority: Advancing'],
+    behaviors: [
+      {
+        key: 'targetPreference',
+        label: 'Target Preference',
+        options: [
+          { value: 'weakest', label: 'Weakest', legacyLabel: 'Target Preference: Weakest' },
+          { value: 'strongest', label: 'Strongest', legacyLabel: 'Target Preference: Strongest' }
+        ],
+        defaultValue: 'weakest'
+      },
+      {
+        key: 'priority',
+        label: 'Priority',
+        options: [
+          { value: 'shooting', label: 'Shooting', legacyLabel: 'Priority: Shooting' },
+          { value: 'advancing', label: 'Advancing', legacyLabel: 'Priority: Advancing' }
+        ],
+        defaultValue: 'shooting'
+      }
+    ],
+    // GDD 7.4: melee swipe on the front tile, 3x3 volley starting two tiles ahead, blind diagonals at 1
+    upgrades: ['damage', 'range'],
+    pattern: {
+      moves: [FORWARD],
+      melee: [FORWARD],
+      ranged: tileBlock(2, 4, -1, 1),
+      attackType: 'ranged',
+      notes: {
+        movement: 'Advances one tile straight ahead.',
+        attack: 'Swipes the front tile; volleys a 3x3 zone starting two tiles ahead.'
+      }
+    },
     description: 'Ranged unit with a 3x3 forward volley and weak melee swipe.'
   },
   giant: {
@@ -104,12 +284,34 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     defense: 0,
     shield: 0,
     damage: 3,
-    speed: 1,
+    speed: 2, // GDD 7.5: slow powerhouse, acts every other turn
     range: 1,
     supplyCost: 5,
     creditCost: 100,
     reviveCost: 25,
-    behaviorOptions: ['Attack arc: Left', 'Attack arc: Center', 'Attack arc: Right'],
+    behaviors: [
+      {
+        key: 'attackArc',
+        label: 'Attack arc',
+        options: [
+          { value: 'left', label: 'Left', legacyLabel: 'Attack arc: Left' },
+          { value: 'center', label: 'Center', legacyLabel: 'Attack arc: Center' },
+          { value: 'right', label: 'Right', legacyLabel: 'Attack arc: Right' }
+        ],
+        defaultValue: 'left'
+      }
+    ],
+    upgrades: ['shield', 'damage'],
+    pattern: {
+      moves: [FORWARD],
+      melee: [{ forward: 1, lateral: -1 }, FORWARD, { forward: 1, lateral: 1 }],
+      ranged: [],
+      attackType: 'melee',
+      notes: {
+        movement: 'Advances one tile straight ahead, acting every other turn.',
+        attack: 'Cleaves one tile of the front arc, starting from the chosen side.'
+      }
+    },
     description: 'Slow powerhouse that cleaves in a chosen arc.'
   },
   mage: {
@@ -124,7 +326,28 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     supplyCost: 4,
     creditCost: 80,
     reviveCost: 20,
-    behaviorOptions: ['Sidestep priority: Left', 'Sidestep priority: Right'],
+    behaviors: [
+      {
+        key: 'sidestep',
+        label: 'Sidestep priority',
+        options: [
+          { value: 'left', label: 'Left', legacyLabel: 'Sidestep priority: Left' },
+          { value: 'right', label: 'Right', legacyLabel: 'Sidestep priority: Right' }
+        ],
+        defaultValue: 'left'
+      }
+    ],
+    upgrades: ['shield'],
+    pattern: {
+      moves: [FORWARD, LEFT, RIGHT],
+      melee: [FORWARD],
+      ranged: [],
+      attackType: 'paralyze',
+      notes: {
+        movement: 'Advances, then sidesteps the turn after casting.',
+        attack: 'Paralyzes the enemy directly ahead for 3 turns.'
+      }
+    },
     description: 'Paralyzes targets for 3 turns; no direct damage.'
   },
   zombie: {
@@ -139,13 +362,231 @@ export const GDD_UNIT_DEFS: Record<GddUnitId, GddUnitDefinition> = {
     supplyCost: 3,
     creditCost: 50,
     reviveCost: 12,
-    behaviorOptions: ['Sidestep left first', 'Sidestep right first'],
+    behaviors: [
+      {
+        key: 'sidestep',
+        label: 'Sidestep direction',
+        options: [
+          { value: 'left', label: 'Left first', legacyLabel: 'Sidestep left first' },
+          { value: 'right', label: 'Right first', legacyLabel: 'Sidestep right first' }
+        ],
+        defaultValue: 'left'
+      }
+    ],
+    upgrades: ['shield', 'damage'],
+    pattern: {
+      moves: [LEFT, RIGHT, FORWARD],
+      melee: [LEFT, RIGHT, FORWARD],
+      ranged: [],
+      attackType: 'melee',
+      notes: {
+        movement: 'Sidesteps toward the chosen side first, then shuffles forward.',
+        attack: 'Bites whichever enemy blocks the tile it tries to enter.'
+      }
+    },
     description: 'Horizontal attacker that sidesteps before shuffling forward.'
   }
 };
 
 export const GDD_UNIT_IDS: GddUnitId[] = ['recruit', 'archer', 'zombie', 'knight', 'beast', 'mage', 'giant'];
 
+/** Units outside the GDD roster walk forward and strike the tile ahead */
+export const DEFAULT_UNIT_PATTERN: UnitPattern = {
+  moves: [FORWARD],
+  melee: [FORWARD],
+  ranged: [],
+  attackType: 'melee',
+  notes: {
+    movement: 'Advances one tile straight ahead.',
+    attack: 'Strikes the tile directly ahead.'
+  }
+};
+
+/** Upgrades offered for a unit type; units outside the GDD roster have none */
+export const getUpgradeOptions = (id: string): UnitUpgradeId[] =>
+  GDD_UNIT_DEFS[id as GddUnitId]?.upgrades ?? [];
+
+export const isUnitUpgradeId = (value: unknown): value is UnitUpgradeId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(UNIT_UPGRADES, value);
+
+/** Upgrades that actually apply to an instance: offered for its type, each counted once */
+export const getOwnedUpgrades = (id: string, upgrades: readonly unknown[] | null | undefined): UnitUpgradeId[] => {
+  const offered = getUpgradeOptions(id);
+  return offered.filter((upgradeId) => (upgrades ?? []).includes(upgradeId));
+};
+
+/** Credits spent on an instance's upgrades */
+export const getUpgradeCost = (id: string, upgrades: readonly unknown[] | null | undefined): number =>
+  getOwnedUpgrades(id, upgrades).reduce((total, upgradeId) => total + UNIT_UPGRADES[upgradeId].creditCost, 0);
+
+/**
+ * Adds the stat bonuses of an instance's upgrades. Call once, when an army is normalized for
+ * battle; the upgrade list itself stays on the unit so patterns can read it.
+ */
+export const applyUnitUpgrades = <T extends Pick<UnitLike, 'id' | 'damage' | 'range' | 'shield'>>(
+  unit: T & { upgrades?: readonly unknown[] }
+): T => {
+  const upgraded = { ...unit };
+  for (const upgradeId of getOwnedUpgrades(unit.id, unit.upgrades)) {
+    const { bonus } = UNIT_UPGRADES[upgradeId];
+    upgraded.damage += bonus.damage ?? 0;
+    upgraded.range += bonus.range ?? 0;
+    if (bonus.shield) {
+      upgraded.shield = (upgraded.shield ?? 0) + bonus.shield;
+    }
+  }
+  return upgraded;
+};
+
+/** XP needed to reach each level, starting at level 1; units stop leveling at the last entry */
+export const UNIT_LEVEL_XP = [0, 25, 60, 120];
+export const MAX_UNIT_LEVEL = UNIT_LEVEL_XP.length;
+
+// Cumulative bonuses per level, kept small so veterans stay answerable by fresh squads
+const LEVEL_BONUSES: Array<{ hp: number; damage: number }> = [
+  { hp: 0, damage: 0 },
+  { hp: 1, damage: 0 },
+  { hp: 1, damage: 1 },
+  { hp: 2, damage: 1 }
+];
+
+export const getUnitLevel = (xp: number | null | undefined): number => {
+  let level = 1;
+  UNIT_LEVEL_XP.forEach((threshold, index) => {
+    if ((xp ?? 0) >= threshold) level = index + 1;
+  });
+  return level;
+};
+
+/** XP still needed for the next level, or null at the cap */
+export const getXpToNextLevel = (xp: number | null | undefined): number | null => {
+  const level = getUnitLevel(xp);
+  return level >= MAX_UNIT_LEVEL ? null : UNIT_LEVEL_XP[level] - (xp ?? 0);
+};
+
+/**
+ * Adds the bonuses of an instance's veterancy level. Like upgrades, call once when the army is
+ * normalized; a unit entering battle at full health stays at full health.
+ */
+export const applyVeterancy = <T extends Pick<UnitLike, 'hp' | 'damage'>>(
+  unit: T & { xp?: number; currentHp?: number }
+): T => {
+  const bonus = LEVEL_BONUSES[getUnitLevel(unit.xp) - 1];
+  const veteran = { ...unit, hp: unit.hp + bonus.hp, damage: unit.damage + bonus.damage };
+  if (veteran.currentHp !== undefined) {
+    veteran.currentHp += bonus.hp;
+  }
+  return veteran;
+};
+
+/** Repeats the farthest ranged row one tile further out */
+const extendRangedZone = (ranged: TileOffset[]): TileOffset[] => {
+  if (ranged.length === 0) return ranged;
+  const farthest = Math.max(...ranged.map((offset) => offset.forward));
+  const extension = ranged
+    .filter((offset) => offset.forward === farthest)
+    .map((offset) => ({ forward: farthest + 1, lateral: offset.lateral }));
+  return [...ranged, ...extension];
+};
+
+/** The unit type's pattern, reshaped by any owned upgrades that change its reach */
+export const getUnitPattern = (id: string, upgrades?: readonly unknown[]): UnitPattern => {
+  const pattern = GDD_UNIT_DEFS[id as GddUnitId]?.pattern ?? DEFAULT_UNIT_PATTERN;
+  if (!getOwnedUpgrades(id, upgrades).includes('range')) {
+    return pattern;
+  }
+  return { ...pattern, ranged: extendRangedZone(pattern.ranged) };
+};
+
+/** Behavior categories a unit exposes; units outside the GDD roster have none */
+export const getBehaviorCategories = (id: string): BehaviorCategory[] =>
+  GDD_UNIT_DEFS[id as GddUnitId]?.behaviors ?? [];
+
+const findBehaviorCategory = <K extends BehaviorKey>(id: string, key: K): BehaviorCategoryOf<K> | undefined =>
+  getBehaviorCategories(id).find((category) => category.key === key) as BehaviorCategoryOf<K> | undefined;
+
+/** Config holding every category's default value */
+export const defaultBehaviorConfig = (id: string): BehaviorConfig => {
+  const config: BehaviorConfig = { version: BEHAVIOR_SCHEMA_VERSION };
+  const values = config as Record<BehaviorKey, string>;
+  for (const category of getBehaviorCategories(id)) {
+    values[category.key] = category.defaultValue;
+  }
+  return config;
+};
+
+/**
+ * Value a unit acts on for one category: the configured value when the unit exposes the
+ * category and allows it, otherwise the category default. Undefined when the unit has no such category.
+ */
+export const resolveBehavior = <K extends BehaviorKey>(
+  id: string,
+  config: BehaviorConfig | undefined,
+  key: K
+): BehaviorValues[K] | undefined => {
+  const category = findBehaviorCategory(id, key);
+  if (!category) return undefined;
+  const chosen = config?.[key];
+  return category.options.some((option) => option.value === chosen)
+    ? (chosen as BehaviorValues[K])
+    : category.defaultValue;
+};
+
+/** Problems with a typed config for the given unit; empty when the engine can run it as-is */
+export const validateBehaviorConfig = (id: string, config: BehaviorConfig): string[] => {
+  if (config.version !== BEHAVIOR_SCHEMA_VERSION) {
+    return [`Behavior config version ${String(config.version)} is not supported (expected ${BEHAVIOR_SCHEMA_VERSION})`];
+  }
+  const errors: string[] = [];
+  const categories = getBehaviorCategories(id);
+  for (const [key, value] of Object.entries(config)) {
+    if (key === 'version') continue;
+    const category = categories.find((candidate) => candidate.key === key);
+    if (!category) {
+      errors.push(`${id} has no "${key}" behavior`);
+    } else if (!category.options.some((option) => option.value === value)) {
+      errors.push(`"${String(value)}" is not a valid ${category.label} for ${id}`);
+    }
+  }
+  return errors;
+};
+
+export interface LegacyBehaviorConversion {
+  config: BehaviorConfig;
+  errors: string[];
+}
+
+/**
+ * Converts the free-text labels older clients sent into a typed config. Labels must match an
+ * option exactly; unknown labels and two picks in one category are reported rather than guessed.
+ */
+export const convertLegacyBehaviors = (id: string, labels: string[]): LegacyBehaviorConversion => {
+  const config: BehaviorConfig = { version: BEHAVIOR_SCHEMA_VERSION };
+  const values = config as Record<BehaviorKey, string>;
+  const errors: string[] = [];
+  const categories = getBehaviorCategories(id);
+  for (const label of labels) {
+    const category = categories.find((candidate) => candidate.options.some((option) => option.legacyLabel === label));
+    const option = category?.options.find((candidate) => candidate.legacyLabel === label);
+    if (!category || !option) {
+      errors.push(`Unknown behavior "${label}" for ${id}`);
+    } else if (values[category.key] !== undefined && values[category.key] !== option.value) {
+      errors.push(`Conflicting ${category.label} behaviors for ${id}`);
+    } else {
+      values[category.key] = option.value;
+    }
+  }
+  return { config, errors };
+};
+
+/** Display lines for a unit's effective behavior, one per category, e.g. "Priority: Shooting" */
+export const describeBehaviorConfig = (id: string, config: BehaviorConfig | undefined): string[] =>
+  getBehaviorCategories(id).map((category) => {
+    const value = resolveBehavior(id, config, category.key);
+    const option = (category.options as BehaviorOption[]).find((candidate) => candidate.value === value);
+    return `${category.label}: ${option?.label ?? String(value)}`;
+  });
+
 export const buildGddUnit = (id: GddUnitId): UnitLike => {
   const def = GDD_UNIT_DEFS[id];
   if (!def) {
@@ -166,8 +607,8 @@ export const buildGddUnit = (id: GddUnitId): UnitLike => {
     shield: def.shield ? def.shield : undefined,
     speed: def.speed,
     range: def.range,
-    behaviorOptions: def.behaviorOptions,
-    upgradeOptions: [],
+    behaviorOptions: def.behaviors.flatMap((category) => category.options.map((option) => option.legacyLabel)),
+    upgradeOptions: [...def.upgrades],
     description: def.description
   };
 };
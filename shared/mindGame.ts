@@ -0,0 +1,167 @@
+// Pre-battle mind game (GDD 5.4): once both boards are revealed the challenger makes one change,
+// then the defender answers with one change, and only then is the battle resolved
+import { validateBehaviorConfig } from './gddUnits';
+import type { BehaviorConfig } from './gddUnits';
+import { isInDeploymentArea } from './deployment';
+import type { DeploymentArea } from './deployment';
+
+type Position = { row: number; col: number };
+
+/**
+ * The single edit a side may make to its own army, in its own coordinates.
+ * - move: put a unit on an empty tile of the deployment area
+ * - swap: exchange the tiles of two units
+ * - behavior: replace one unit's behavior config
+ * - pass: keep the army as it is; also what a side gets when its time runs out
+ */
+export type ArmyAdjustment =
+  | { kind: 'move'; instanceId: string; to: Position }
+  | { kind: 'swap'; instanceId: string; otherInstanceId: string }
+  | { kind: 'behavior'; instanceId: string; behaviorConfig: BehaviorConfig }
+  | { kind: 'pass' };
+
+const ADJUSTMENT_KINDS: readonly unknown[] = ['move', 'swap', 'behavior', 'pass'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+interface AdjustableUnit {
+  instanceId: string;
+  id: string;
+  position: Position;
+  behaviorConfig?: BehaviorConfig;
+}
+
+export interface AdjustmentResult<T extends AdjustableUnit> {
+  army: T[];
+  /** Why the edit was refused; the army is returned unchanged when there are any */
+  errors: string[];
+}
+
+/** Applies one adjustment, refusing anything beyond a single move, swap or behavior change */
+export const applyArmyAdjustment = <T extends AdjustableUnit>(
+  army: T[],
+  adjustment: ArmyAdjustment,
+  area: DeploymentArea
+): AdjustmentResult<T> => {
+  // Adjustments arrive straight from the client, so their shape is checked before anything reads it
+  if (!isRecord(adjustment) || !ADJUSTMENT_KINDS.includes(adjustment.kind)) {
+    return { army, errors: ['Unknown adjustment'] };
+  }
+  if (adjustment.kind === 'pass') {
+    return { army, errors: [] };
+  }
+
+  const unit = army.find((candidate) => candidate.instanceId === adjustment.instanceId);
+  if (!unit) {
+    return { army, errors: [`Unit ${adjustment.instanceId} is not in your army`] };
+  }
+
+  switch (adjustment.kind) {
+    case 'move': {
+      const { to } = adjustment;
+      if (!isRecord(to) || !Number.isInteger(to.row) || !Number.isInteger(to.col)) {
+        return { army, errors: ['A move needs a whole tile to move to'] };
+      }
+      if (!isInDeploymentArea(area, to)) {
+        return { army, errors: [`Tile ${to.row}-${to.col} is outside your deployment area`] };
+      }
+      if (army.some((other) => other.position.row === to.row && other.position.col === to.col)) {
+        return { army, errors: [`Tile ${to.row}-${to.col} is already taken by one of your units`] };
+      }
+      return {
+        army: army.map((candidate) => (candidate === unit ? { ...candidate, position: { row: to.row, col: to.col } } : candidate)),
+        errors: []
+      };
+    }
+    case 'swap': {
+      const other = army.find((candidate) => candidate.instanceId === adjustment.otherInstanceId);
+      if (!other) {
+        return { army, errors: [`Unit ${adjustment.otherInstanceId} is not in your army`] };
+      }
+      if (other === unit) {
+        return { army, errors: ['A unit cannot swap with itself'] };
+      }
+      return {
+        army: army.map((candidate) => {
+          if (candidate === unit) return { ...candidate, position: { ...other.position } };
+          if (candidate === other) return { ...candidate, position: { ...unit.position } };
+          return candidate;
+        }),
+        errors: []
+      };
+    }
+    case 'behavior': {
+      if (!isRecord(adjustment.behaviorConfig)) {
+        return { army, errors: ['A behavior change needs a behavior config'] };
+      }
+      const errors = validateBehaviorConfig(unit.id, adjustment.behaviorConfig);
+      if (errors.length > 0) {
+        return { army, errors };
+      }
+      return {
+        army: army.map((candidate) =>
+          candidate === unit ? { ...candidate, behaviorConfig: adjustment.behaviorConfig } : candidate
+        ),
+        errors: []
+      };
+    }
+    default:
+      return { army, errors: ['Unknown adjustment'] };
+  }
+};
+
+export type MindGameSide = 'challenger' | 'defender';
+
+/** Whose edit the match is waiting for; 'resolved' once both have made theirs */
+export type MindGameStep = MindGameSide | 'resolved';
+
+export interface MindGameState<T extends AdjustableUnit> {
+  step: MindGameStep;
+  challengerArmy: T[];
+  defenderArmy: T[];
+  adjustments: Partial<Record<MindGameSide, ArmyAdjustment>>;
+}
+
+export const startMindGame = <T extends AdjustableUnit>(challengerArmy: T[], defenderArmy: T[]): MindGameState<T> => ({
+  step: 'challenger',
+  challengerArmy,
+  defenderArmy,
+  adjustments: {}
+});
+
+export interface MindGameTransition<T extends AdjustableUnit> {
+  state: MindGameState<T>;
+  errors: string[];
+}
+
+/** Records one side's edit and hands the turn on; out-of-turn or invalid edits leave the state as it was */
+export const submitAdjustment = <T extends AdjustableUnit>(
+  state: MindGameState<T>,
+  side: MindGameSide,
+  adjustment: ArmyAdjustment,
+  area: DeploymentArea
+): MindGameTransition<T> => {
+  if (state.step !== side) {
+    return { state, errors: [state.step === 'resolved' ? 'Both sides have already adjusted' : 'It is not your turn to adjust'] };
+  }
+
+  const armyKey = side === 'challenger' ? 'challengerArmy' : 'defenderArmy';
+  const { army, errors } = applyArmyAdjustment(state[armyKey], adjustment, area);
+  if (errors.length > 0) {
+    return { state, errors };
+  }
+
+  return {
+    state: {
+      ...state,
+      [armyKey]: army,
+      step: side === 'challenger' ? 'defender' : 'resolved',
+      adjustments: { ...state.adjustments, [side]: adjustment }
+    },
+    errors: []
+  };
+};
+
+/** Ends the current step with a pass, for a side that ran out of time */
+export const forfeitAdjustment = <T extends AdjustableUnit>(state: MindGameState<T>, area: DeploymentArea): MindGameState<T> =>
+  state.step === 'resolved' ? state : submitAdjustment(state, state.step, { kind: 'pass' }, area).state;
@@ -0,0 +1,20 @@
+// Battle rewards: what a match is worth in credits. Only the server grants them, through the credit ledger
+export const WIN_REWARD_SAME_RANK = 50;
+export const WIN_REWARD_HIGHER_RANK = 100;
+export const WIN_REWARD_LOWER_RANK = 25;
+
+/** Why a player's credits changed; recorded with every ledger entry */
+export type CreditReason = 'battle_win' | 'unit_purchase' | 'upgrade_purchase' | 'unit_refund';
+
+export interface RewardContext {
+  playerRank?: number | null;
+  opponentRank?: number | null;
+}
+
+export const calculateWinReward = ({ playerRank, opponentRank }: RewardContext = {}): number => {
+  if (playerRank != null && opponentRank != null) {
+    if (opponentRank > playerRank) return WIN_REWARD_HIGHER_RANK;
+    if (opponentRank < playerRank) return WIN_REWARD_LOWER_RANK;
+  }
+  return WIN_REWARD_SAME_RANK;
+};
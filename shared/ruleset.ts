@@ -0,0 +1,133 @@
+// Rulesets: everything a match is played under, versioned so a recorded match replays under its own rules
+import type { GddUnitId, UnitLike } from './gddUnits';
+
+/** Board shape; row 0 is the far end of the board as seen by Player A */
+export interface BoardDimensions {
+  rows: number;
+  cols: number;
+  /** Rows at each end of the board a side may deploy on */
+  deploymentRows: number;
+}
+
+/**
+ * How a team's actions are applied within its turn.
+ * - simultaneous: every unit plans from the same snapshot; attacks land, then all moves apply at once
+ * - sequential: units plan and act one at a time in resolution order (GDD 4.1), so each unit sees
+ *   the board as left by the unit before it and an impossible action becomes an idle
+ */
+export type ResolutionMode = 'simultaneous' | 'sequential';
+
+/**
+ * Where a side may place its units.
+ * - deploymentZone: only the rows at its own end of the board
+ * - anywhere: any tile (GDD 5.3); tiles both sides claim are resolved when the armies are merged
+ */
+export type PlacementRule = 'deploymentZone' | 'anywhere';
+
+/** Optional rules a ruleset can switch on to trial them against the standard game */
+export interface RuleVariants {
+  resolutionMode: ResolutionMode;
+  placement: PlacementRule;
+}
+
+/** Base stats of a unit type under a ruleset; upgrades and veterancy are added on top */
+export interface RulesetUnitStats {
+  hp: number;
+  defense: number;
+  shield: number;
+  damage: number;
+  speed: number;
+  range: number;
+  supplyCost: number;
+}
+
+export interface Ruleset {
+  version: string;
+  name: string;
+  /** Version the unit stats were published under; matches unit_types.rules_version in the catalog */
+  unitsVersion: string;
+  units: Record<GddUnitId, RulesetUnitStats>;
+  /** Most supply one army may field */
+  supplyCap: number;
+  board: BoardDimensions;
+  /** Ticks after which an unfinished battle is called a draw */
+  tickLimit: number;
+  variants: RuleVariants;
+}
+
+// Stats are written out rather than read from GDD_UNIT_DEFS so a released version never changes;
+// tests/ruleset.test.ts fails when the unit definitions drift from the current version.
+export const RULESET_V1: Ruleset = {
+  version: 'v1.0.0',
+  name: 'Standard',
+  unitsVersion: 'v1.0.0',
+  units: {
+    recruit: { hp: 1, defense: 0, shield: 0, damage: 1, speed: 1, range: 1, supplyCost: 1 },
+    knight: { hp: 2, defense: 2, shield: 1, damage: 3, speed: 1, range: 1, supplyCost: 3 },
+    beast: { hp: 6, defense: 1, shield: 0, damage: 3, speed: 1, range: 1, supplyCost: 4 },
+    archer: { hp: 2, defense: 0, shield: 0, damage: 2, speed: 1, range: 3, supplyCost: 2 },
+    giant: { hp: 8, defense: 0, shield: 0, damage: 3, speed: 1, range: 1, supplyCost: 5 },
+    mage: { hp: 2, defense: 0, shield: 0, damage: 0, speed: 1, range: 1, supplyCost: 4 },
+    zombie: { hp: 5, defense: 0, shield: 0, damage: 4, speed: 1, range: 1, supplyCost: 3 }
+  },
+  supplyCap: 20,
+  board: { rows: 12, cols: 6, deploymentRows: 6 },
+  tickLimit: 500,
+  variants: { resolutionMode: 'simultaneous', placement: 'deploymentZone' }
+};
+
+/** Free placement across the whole board (GDD 5.3), and the Giant acts every other turn (GDD 7.5) */
+export const RULESET_V1_1: Ruleset = {
+  ...RULESET_V1,
+  version: 'v1.1.0',
+  units: { ...RULESET_V1.units, giant: { ...RULESET_V1.units.giant, speed: 2 } },
+  variants: { ...RULESET_V1.variants, placement: 'anywhere' }
+};
+
+/** Ruleset new matches are played under unless the server is configured otherwise */
+export const CURRENT_RULESET = RULESET_V1_1;
+
+export const RULESETS: Ruleset[] = [
+  RULESET_V1,
+  RULESET_V1_1,
+  {
+    // GDD 3 board, trialled against the standard 12x6
+    ...RULESET_V1,
+    version: 'v1.0.0-gdd-wide',
+    name: 'GDD Wide',
+    board: { rows: 12, cols: 8, deploymentRows: 6 }
+  },
+  {
+    // One-unit-at-a-time resolution (GDD 4.1), trialled against simultaneous turns
+    ...RULESET_V1,
+    version: 'v1.0.0-sequential',
+    name: 'Sequential Turns',
+    variants: { ...RULESET_V1.variants, resolutionMode: 'sequential' }
+  }
+];
+
+export const getRuleset = (version: string | null | undefined): Ruleset | undefined =>
+  RULESETS.find((ruleset) => ruleset.version === version);
+
+/** First row of the deployment zone at the high end of the board (Player A's side) */
+export const deploymentZoneStart = (board: BoardDimensions): number => board.rows - board.deploymentRows;
+
+/** Replaces a unit's base combat stats with the ruleset's; unit types the ruleset does not know keep theirs */
+export const applyRulesetStats = <T extends Pick<UnitLike, 'id' | 'hp' | 'defense' | 'shield' | 'damage' | 'speed' | 'range'>>(
+  unit: T,
+  ruleset: Ruleset
+): T => {
+  const stats = (ruleset.units as Partial<Record<string, RulesetUnitStats>>)[unit.id];
+  if (!stats) {
+    return unit;
+  }
+  return {
+    ...unit,
+    hp: stats.hp,
+    defense: stats.defense,
+    shield: stats.shield,
+    damage: stats.damage,
+    speed: stats.speed,
+    range: stats.range
+  };
+};
@@ -0,0 +1,134 @@
+// Best-of-3 series (GDD 4.4, experimental): the same two armies play up to three matches and
+// each player may make a few strategic adjustments between them
+import { describeBehaviorConfig, validateBehaviorConfig } from './gddUnits';
+import type { BehaviorConfig } from './gddUnits';
+import { isInDeploymentArea } from './deployment';
+import type { DeploymentArea } from './deployment';
+
+export type MatchFormat = 'single' | 'best_of_3';
+
+export const SERIES_MAX_MATCHES = 3;
+export const SERIES_WINS_NEEDED = 2;
+/** Adjustments each player may make between two matches of a series */
+export const SERIES_ADJUSTMENT_LIMIT = 3;
+
+export type MatchWinner = 'A' | 'B' | 'draw';
+
+export interface SeriesScore {
+  A: number;
+  B: number;
+  draws: number;
+}
+
+export const scoreSeries = (results: MatchWinner[]): SeriesScore => ({
+  A: results.filter((result) => result === 'A').length,
+  B: results.filter((result) => result === 'B').length,
+  draws: results.filter((result) => result === 'draw').length
+});
+
+/**
+ * The series result once it is decided: the first side to two wins, or after three matches whoever
+ * won more of them ('draw' when level). Null while another match is still to be played.
+ */
+export const seriesWinner = (results: MatchWinner[]): MatchWinner | null => {
+  const score = scoreSeries(results);
+  if (score.A >= SERIES_WINS_NEEDED) return 'A';
+  if (score.B >= SERIES_WINS_NEEDED) return 'B';
+  if (results.length < SERIES_MAX_MATCHES) return null;
+  if (score.A === score.B) return 'draw';
+  return score.A > score.B ? 'A' : 'B';
+};
+
+interface SeriesUnit {
+  instanceId: string;
+  id: string;
+  position: { row: number; col: number };
+  behaviorConfig?: BehaviorConfig;
+}
+
+export interface SeriesArmyRevision<T extends SeriesUnit> {
+  /** The previous army with the new tiles and behaviors; everything else stays as it was */
+  army: T[];
+  adjustments: number;
+  errors: string[];
+}
+
+const sameBehavior = (unit: SeriesUnit, other: SeriesUnit): boolean =>
+  describeBehaviorConfig(unit.id, unit.behaviorConfig).join('|') ===
+  describeBehaviorConfig(other.id, other.behaviorConfig).join('|');
+
+/**
+ * Checks a player's army for the next match of a series against the one they last played.
+ * The roster is fixed for the series. Each unit on a new tile and each behavior change is one
+ * adjustment; two units that trade tiles count as one.
+ */
+export const reviseSeriesArmy = <T extends SeriesUnit>(
+  previous: T[],
+  next: SeriesUnit[],
+  area: DeploymentArea,
+  limit = SERIES_ADJUSTMENT_LIMIT
+): SeriesArmyRevision<T> => {
+  const errors: string[] = [];
+  const nextById = new Map(next.map((unit) => [unit.instanceId, unit]));
+
+  if (nextById.size !== next.length) {
+    errors.push('The army lists a unit more than once');
+  }
+  previous.forEach((unit) => {
+    const revised = nextById.get(unit.instanceId);
+    if (!revised) {
+      errors.push(`${unit.instanceId} is missing; units cannot leave during a series`);
+    } else if (revised.id !== unit.id) {
+      errors.push(`${unit.instanceId} cannot change from ${unit.id} to ${revised.id}`);
+    }
+  });
+  next.forEach((unit) => {
+    if (!previous.some((candidate) => candidate.instanceId === unit.instanceId)) {
+      errors.push(`${unit.instanceId} was not in your army; units cannot join during a series`);
+    }
+    if (!isInDeploymentArea(area, unit.position)) {
+      errors.push(`${unit.instanceId} is outside your deployment area`);
+    }
+    if (unit.behaviorConfig) {
+      errors.push(...validateBehaviorConfig(unit.id, unit.behaviorConfig).map((error) => `${unit.instanceId}: ${error}`));
+    }
+  });
+  const tiles = new Set(next.map((unit) => `${unit.position.row}-${unit.position.col}`));
+  if (tiles.size !== next.length) {
+    errors.push('Two of your units share a tile');
+  }
+  if (errors.length > 0) {
+    return { army: previous, adjustments: 0, errors };
+  }
+
+  // Every previous unit has exactly one revised counterpart once the checks above pass
+  const pairs = previous.flatMap((unit) => {
+    const revised = nextById.get(unit.instanceId);
+    return revised ? [{ unit, revised }] : [];
+  });
+  const sameTile = (a: SeriesUnit['position'], b: SeriesUnit['position']) => a.row === b.row && a.col === b.col;
+  const moved = pairs.filter(({ unit, revised }) => !sameTile(unit.position, revised.position));
+  const swappedUnits = moved.filter(({ unit, revised }) =>
+    moved.some((other) => sameTile(other.unit.position, revised.position) && sameTile(other.revised.position, unit.position))
+  ).length;
+  const retuned = pairs.filter(({ unit, revised }) => !sameBehavior(unit, revised)).length;
+  const adjustments = moved.length - swappedUnits / 2 + retuned;
+
+  if (adjustments > limit) {
+    return {
+      army: previous,
+      adjustments,
+      errors: [`${adjustments} adjustments is more than the ${limit} allowed between matches`]
+    };
+  }
+
+  return {
+    army: pairs.map(({ unit, revised }) => ({
+      ...unit,
+      position: { ...revised.position },
+      behaviorConfig: revised.behaviorConfig
+    })),
+    adjustments,
+    errors: []
+  };
+};
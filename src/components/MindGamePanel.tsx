@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import type { MindGameReveal } from '../hooks/useGameServer';
+import type { DeploymentArea } from '../../shared/deployment';
+import type { ArmyAdjustment } from '../../shared/mindGame';
+import { getBehaviorCategories, resolveBehavior, BEHAVIOR_SCHEMA_VERSION } from '../../shared/gddUnits';
+import type { BehaviorConfig, BehaviorKey, BehaviorOption } from '../../shared/gddUnits';
+
+type AdjustmentKind = Exclude<ArmyAdjustment['kind'], 'pass'>;
+
+interface MindGamePanelProps {
+  reveal: MindGameReveal;
+  /** Where the local player may move a unit, in their own coordinates */
+  deploymentArea: DeploymentArea;
+  onSubmit: (adjustment: ArmyAdjustment) => void;
+}
+
+const ADJUSTMENT_LABELS: Record<AdjustmentKind, string> = {
+  move: 'Move a unit',
+  swap: 'Swap two units',
+  behavior: 'Change behavior'
+};
+
+const range = (start: number, count: number) => Array.from({ length: count }, (_, index) => start + index);
+
+const MindGamePanel = ({ reveal, deploymentArea, onSubmit }: MindGamePanelProps) => {
+  const { yourArmy, yourTurn, step, deadline } = reveal;
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+  const [kind, setKind] = useState<AdjustmentKind>('move');
+  const [unitId, setUnitId] = useState(yourArmy[0]?.instanceId ?? '');
+  const [otherUnitId, setOtherUnitId] = useState('');
+  const [target, setTarget] = useState({ row: deploymentArea.firstRow, col: 0 });
+  const [behaviorConfig, setBehaviorConfig] = useState<BehaviorConfig | null>(null);
+
+  useEffect(() => {
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = window.setInterval(tick, 250);
+    return () => window.clearInterval(interval);
+  }, [deadline]);
+
+  const unit = yourArmy.find((candidate) => candidate.instanceId === unitId);
+  const categories = unit ? getBehaviorCategories(unit.id) : [];
+
+  // Start the behavior editor from what the unit already does
+  const editedConfig = ((): BehaviorConfig => {
+    if (behaviorConfig) return behaviorConfig;
+    const config: BehaviorConfig = { version: BEHAVIOR_SCHEMA_VERSION };
+    const values = config as Record<BehaviorKey, string | undefined>;
+    for (const category of categories) {
+      values[category.key] = unit ? resolveBehavior(unit.id, unit.behaviorConfig, category.key) : undefined;
+    }
+    return config;
+  })();
+
+  const describeUnit = (instanceId: string) => {
+    const candidate = yourArmy.find((entry) => entry.instanceId === instanceId);
+    if (!candidate) return instanceId;
+    return `${candidate.icon} ${candidate.name} (${candidate.position.row + 1}, ${candidate.position.col + 1})`;
+  };
+
+  const buildAdjustment = (): ArmyAdjustment | null => {
+    if (!unit) return null;
+    if (kind === 'move') return { kind, instanceId: unit.instanceId, to: target };
+    if (kind === 'swap') return otherUnitId ? { kind, instanceId: unit.instanceId, otherInstanceId: otherUnitId } : null;
+    return categories.length > 0 ? { kind, instanceId: unit.instanceId, behaviorConfig: editedConfig } : null;
+  };
+  const adjustment = buildAdjustment();
+
+  const statusText = (() => {
+    if (!yourTurn) {
+      return step === 'challenger'
+        ? 'The challenger is studying your board and will make one change.'
+        : 'Waiting for the defender to answer with one change.';
+    }
+    return step === 'challenger'
+      ? 'Both boards are revealed. Make one change before the defender answers.'
+      : 'The challenger has made their change. Answer with one of your own.';
+  })();
+
+  return (
+    <section className="multiplayer-panel mind-game-panel" aria-label="Pre-battle mind game">
+      <div className="multiplayer-panel-header">
+        <div>
+          <h3>Mind Game</h3>
+          <p className="panel-subtitle">{statusText}</p>
+        </div>
+        <span className={`mind-game-timer ${secondsLeft <= 5 ? 'urgent' : ''}`}>{secondsLeft}s</span>
+      </div>
+
+      {yourTurn && (
+        <div className="mind-game-form">
+          <div className="mind-game-kinds" role="radiogroup" aria-label="Adjustment">
+            {(Object.keys(ADJUSTMENT_LABELS) as AdjustmentKind[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={kind === option}
+                className={`mind-game-kind ${kind === option ? 'selected' : ''}`}
+                onClick={() => setKind(option)}
+              >
+                {ADJUSTMENT_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <label className="mind-game-field">
+            Unit
+            <select
+              value={unitId}
+              onChange={(event) => {
+                setUnitId(event.target.value);
+                setBehaviorConfig(null);
+              }}
+            >
+              {yourArmy.map((entry) => (
+                <option key={entry.instanceId} value={entry.instanceId}>
+                  {describeUnit(entry.instanceId)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {kind === 'move' && (
+            <div className="mind-game-field-row">
+              <label className="mind-game-field">
+                Row
+                <select
+                  value={target.row}
+                  onChange={(event) => setTarget((prev) => ({ ...prev, row: Number(event.target.value) }))}
+                >
+                  {range(deploymentArea.firstRow, deploymentArea.rows).map((row) => (
+                    <option key={row} value={row}>
+                      {row + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="mind-game-field">
+                Column
+                <select
+                  value={target.col}
+                  onChange={(event) => setTarget((prev) => ({ ...prev, col: Number(event.target.value) }))}
+                >
+                  {range(0, deploymentArea.cols).map((col) => (
+                    <option key={col} value={col}>
+                      {col + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {kind === 'swap' && (
+            <label className="mind-game-field">
+              Swap with
+              <select value={otherUnitId} onChange={(event) => setOtherUnitId(event.target.value)}>
+                <option value="">Choose a unit</option>
+                {yourArmy
+                  .filter((entry) => entry.instanceId !== unitId)
+                  .map((entry) => (
+                    <option key={entry.instanceId} value={entry.instanceId}>
+                      {describeUnit(entry.instanceId)}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          )}
+
+          {kind === 'behavior' &&
+            (categories.length === 0 ? (
+              <p className="panel-subtitle">This unit has no behaviors to change.</p>
+            ) : (
+              categories.map((category) => (
+                <label key={category.key} className="mind-game-field">
+                  {category.label}
+                  <select
+                    value={String(editedConfig[category.key] ?? category.defaultValue)}
+                    onChange={(event) =>
+                      setBehaviorConfig({ ...editedConfig, [category.key]: event.target.value })
+                    }
+                  >
+                    {(category.options as BehaviorOption[]).map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))
+            ))}
+
+          <div className="challenge-banner-actions">
+            <button
+              type="button"
+              className="accept-btn"
+              disabled={!adjustment}
+              onClick={() => adjustment && onSubmit(adjustment)}
+            >
+              Make Change
+            </button>
+            <button type="button" className="decline-btn" onClick={() => onSubmit({ kind: 'pass' })}>
+              Pass
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default MindGamePanel;
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import type { ArmyConfig, MatchRole, SeriesView } from '../hooks/useGameServer';
+import type { DeploymentArea } from '../../shared/deployment';
+import { reviseSeriesArmy, SERIES_MAX_MATCHES } from '../../shared/series';
+
+interface SeriesPanelProps {
+  series: SeriesView;
+  role: MatchRole | null;
+  /** The army currently on the planning board */
+  plannedArmy: ArmyConfig;
+  deploymentArea: DeploymentArea;
+  onLockIn: () => void;
+  onDismiss: () => void;
+}
+
+const SeriesPanel = ({ series, role, plannedArmy, deploymentArea, onLockIn, onDismiss }: SeriesPanelProps) => {
+  const { deadline } = series;
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = window.setInterval(tick, 250);
+    return () => window.clearInterval(interval);
+  }, [deadline]);
+
+  const opponentRole: MatchRole = role === 'B' ? 'A' : 'B';
+  const yourWins = role ? series.score[role] : 0;
+  const opponentWins = role ? series.score[opponentRole] : 0;
+  const outcomeLabel = (result: SeriesView['results'][number]) => {
+    if (result === 'draw') return 'D';
+    return result === role ? 'W' : 'L';
+  };
+
+  // The same check the server runs, so the count and any problem show while the player edits
+  const revision = reviseSeriesArmy(series.previousArmy, plannedArmy, deploymentArea, series.adjustmentLimit);
+
+  const heading = (() => {
+    if (series.winner === 'draw') return 'Series drawn';
+    if (series.winner) return series.winner === role ? 'Series won' : 'Series lost';
+    return `Best of ${SERIES_MAX_MATCHES} · Match ${series.nextMatch ?? series.results.length}`;
+  })();
+
+  return (
+    <section className="multiplayer-panel series-panel" aria-label="Best-of-3 series">
+      <div className="multiplayer-panel-header">
+        <div>
+          <h3>{heading}</h3>
+          <p className="panel-subtitle">
+            You {yourWins} – {opponentWins} Opponent
+            {series.score.draws > 0 ? ` · ${series.score.draws} drawn` : ''}
+          </p>
+        </div>
+        {deadline !== null && series.lockedAdjustments === null && (
+          <span className={`mind-game-timer ${secondsLeft <= 10 ? 'urgent' : ''}`}>{secondsLeft}s</span>
+        )}
+      </div>
+
+      <div className="series-results">
+        {series.results.map((result, index) => (
+          <span key={index} className={`series-result ${outcomeLabel(result).toLowerCase()}`}>
+            {outcomeLabel(result)}
+          </span>
+        ))}
+      </div>
+
+      {series.nextMatch !== null &&
+        (series.lockedAdjustments !== null ? (
+          <p className="panel-subtitle">
+            Army locked in with {series.lockedAdjustments} of {series.adjustmentLimit} adjustments. Waiting for your
+            opponent…
+          </p>
+        ) : (
+          <div className="mind-game-form">
+            <p className="panel-subtitle">
+              Return to planning and make up to {series.adjustmentLimit} adjustments: move units or change their
+              behavior. Two units trading places count once. Your last army is kept if time runs out.
+            </p>
+            <p className={`series-adjustment-count ${revision.errors.length > 0 ? 'invalid' : ''}`}>
+              {revision.adjustments} / {series.adjustmentLimit} adjustments
+            </p>
+            {revision.errors.length > 0 && <p className="army-note warning">{revision.errors[0]}</p>}
+            <div className="challenge-banner-actions">
+              <button type="button" className="accept-btn" disabled={revision.errors.length > 0} onClick={onLockIn}>
+                Lock In Army
+              </button>
+            </div>
+          </div>
+        ))}
+
+      {series.winner && (
+        <div className="challenge-banner-actions">
+          <button type="button" className="decline-btn" onClick={onDismiss}>
+            Close
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SeriesPanel;
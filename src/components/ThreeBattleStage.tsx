@@ -4,6 +4,7 @@ import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment
 import { CELL_SIZE } from '../constants/board';
 import type { DemoState, HitEvent } from '../types/battle';
 import type { PlacedUnit } from '../types';
+import type { TerrainTile } from '../../shared/battleMaps';
 import { useUnitLayer } from './units/useUnitLayer';
 import { createTacticalBoard } from './createTacticalBoard';
 import type { TileEffect, TileOwner, TacticalBoard, TileOccupant } from './createTacticalBoard';
@@ -50,6 +51,8 @@ interface ThreeBattleStageProps {
   onTileDrop?: (info: { row: number; col: number; occupied: TileOccupant | null }) => void;
   onTileClick?: (info: { row: number; col: number; occupied: TileOccupant | null }) => void;
   forceOwner?: TileOwner;
+  /** Terrain of the battle's map, from the viewer's perspective */
+  terrain?: TerrainTile[];
 }
 
 const ThreeBattleStage = ({
@@ -66,7 +69,8 @@ const ThreeBattleStage = ({
   onTileHover,
   onTileDrop,
   onTileClick,
-  forceOwner
+  forceOwner,
+  terrain
 }: ThreeBattleStageProps) => {
   const mountRef = useRef<HTMLDivElement | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -532,6 +536,10 @@ const ThreeBattleStage = ({
     syncUnits(units, boardSize, cols);
   }, [syncUnits, units, boardSize, boardCols, modelRevision]);
 
+  useEffect(() => {
+    tacticalBoardRef.current?.setTerrain(terrain ?? []);
+  }, [terrain, boardSize, boardCols, forceOwner, interactionMode]);
+
   useEffect(() => {
     if (!dragActive) {
       tacticalBoardRef.current?.clearHoverStates();
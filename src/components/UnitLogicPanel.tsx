@@ -1,53 +1,34 @@
 import type { PlacedUnit } from '../types';
+import { describeBehaviorConfig, getBehaviorCategories, resolveBehavior } from '../../shared/gddUnits';
+import type { BehaviorKey, BehaviorOption, BehaviorValues } from '../../shared/gddUnits';
 import './UnitLogicPanel.css';
 
 interface UnitLogicPanelProps {
   unit: PlacedUnit;
-  onBehaviorSelect: (behavior: string, categoryKey?: string) => void;
+  onBehaviorSelect: (key: BehaviorKey, value: BehaviorValues[BehaviorKey]) => void;
   onClose: () => void;
 }
 
-// Parse behaviors into categories (e.g., "Target Preference: Weakest" -> category "Target Preference", option "Weakest")
-const parseBehaviorCategories = (behaviors: string[]) => {
-  const categories: Record<string, { options: Array<{ option: string; fullBehavior: string }>; selected?: string }> = {};
-  
-  behaviors.forEach((behavior) => {
-    const colonIndex = behavior.indexOf(':');
-    if (colonIndex > -1) {
-      const category = behavior.substring(0, colonIndex).trim();
-      const option = behavior.substring(colonIndex + 1).trim();
-      
-      if (!categories[category]) {
-        categories[category] = { options: [] };
-      }
-      categories[category].options.push({ option, fullBehavior: behavior });
-    }
-  });
-  
-  return categories;
-};
-
 const UnitLogicPanel = ({ unit, onBehaviorSelect, onClose }: UnitLogicPanelProps) => {
-  const hasLogic = unit.behaviorOptions && unit.behaviorOptions.length > 0;
-  const categories = hasLogic ? parseBehaviorCategories(unit.behaviorOptions) : {};
-  const hasMultipleCategories = Object.keys(categories).length > 1;
-  
-  // Set defaults for first-time selection
-  const getDefaultsForUnit = () => {
-    const defaults: string[] = [];
-    Object.entries(categories).forEach(([_, catData]) => {
-      if (catData.options.length > 0) {
-        // Default to first option (or could be customized per unit)
-        defaults.push((catData.options[0] as any).fullBehavior);
-      }
-    });
-    return defaults;
-  };
-  
-  const selectedBehaviors = unit.selectedBehaviors || getDefaultsForUnit();
-  
-  const getSelectedForCategory = (category: string) => {
-    return selectedBehaviors.find(b => b.startsWith(category + ':'));
+  // Categories, options and defaults all come from the shared behavior schema
+  const categories = getBehaviorCategories(unit.id);
+  const hasLogic = categories.length > 0;
+  const hasMultipleCategories = categories.length > 1;
+  const configuration = describeBehaviorConfig(unit.id, unit.behaviorConfig);
+
+  const renderOption = (key: BehaviorKey, option: BehaviorOption) => {
+    const isSelected = resolveBehavior(unit.id, unit.behaviorConfig, key) === option.value;
+    return (
+      <button
+        key={option.value}
+        type="button"
+        className={`behavior-option ${isSelected ? 'selected' : ''}`}
+        onClick={() => onBehaviorSelect(key, option.value)}
+      >
+        <span className="behavior-name">{option.label}</span>
+        {isSelected && <span className="behavior-indicator">✓</span>}
+      </button>
+    );
   };
 
   return (
@@ -91,53 +72,25 @@ const UnitLogicPanel = ({ unit, onBehaviorSelect, onClose }: UnitLogicPanelProps
               
               {hasMultipleCategories ? (
                 <div className="behavior-categories">
-                  {Object.entries(categories).map(([categoryName, catData]) => {
-                    const selected = getSelectedForCategory(categoryName);
-                    return (
-                      <div key={categoryName} className="category-section">
-                        <h3 className="category-name">{categoryName}</h3>
-                        <div className="category-options">
-                          {(catData.options as any[]).map(({ option, fullBehavior }) => (
-                            <button
-                              key={fullBehavior}
-                              type="button"
-                              className={`behavior-option ${selected === fullBehavior ? 'selected' : ''}`}
-                              onClick={() => onBehaviorSelect(fullBehavior, categoryName)}
-                            >
-                              <span className="behavior-name">{option}</span>
-                              {selected === fullBehavior && <span className="behavior-indicator">✓</span>}
-                            </button>
-                          ))}
-                        </div>
+                  {categories.map((category) => (
+                    <div key={category.key} className="category-section">
+                      <h3 className="category-name">{category.label}</h3>
+                      <div className="category-options">
+                        {(category.options as BehaviorOption[]).map((option) => renderOption(category.key, option))}
                       </div>
-                    );
-                  })}
+                    </div>
+                  ))}
                 </div>
               ) : (
                 <div className="behavior-grid">
-                  {unit.behaviorOptions.map((behavior) => {
-                    const isSelected = selectedBehaviors.includes(behavior);
-                    return (
-                      <button
-                        key={behavior}
-                        type="button"
-                        className={`behavior-option ${isSelected ? 'selected' : ''}`}
-                        onClick={() => {
-                          onBehaviorSelect(behavior);
-                        }}
-                      >
-                        <span className="behavior-name">{behavior}</span>
-                        {isSelected && <span className="behavior-indicator">✓</span>}
-                      </button>
-                    );
-                  })}
+                  {(categories[0].options as BehaviorOption[]).map((option) => renderOption(categories[0].key, option))}
                 </div>
               )}
               
-              {selectedBehaviors.length > 0 && (
+              {configuration.length > 0 && (
                 <div className="selected-logic">
                   <strong>Configuration:</strong>
-                  {selectedBehaviors.map((behavior, idx) => (
+                  {configuration.map((behavior, idx) => (
                     <div key={idx} className="selected-behavior">{behavior}</div>
                   ))}
                 </div>
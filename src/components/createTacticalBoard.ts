@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { boardKey, cellToWorld } from '../constants/board';
+import type { TerrainTile, TerrainType } from '../../shared/battleMaps';
 
 export type TileOwner = 'blue' | 'red';
 export type TileOccupant = TileOwner | null;
@@ -34,6 +35,8 @@ export interface TacticalBoard {
   clearOccupants: () => void;
   setTileHoverState: (row: number, col: number, state: TileHoverState) => void;
   clearHoverStates: () => void;
+  /** Replaces the terrain props standing on the board */
+  setTerrain: (terrain: TerrainTile[]) => void;
 }
 
 const ownerPalettes: Record<TileOwner, { base: THREE.Color; emissive: THREE.Color; glow: THREE.Color; stroke: string }> = {
@@ -60,6 +63,13 @@ const tileEffectPalette: Record<Exclude<TileEffect, null>, { color: THREE.Color;
   'hover-inspect': { color: new THREE.Color(0x60a5fa), intensity: 0.9 }
 };
 
+const terrainPalette: Record<TerrainType, { color: THREE.Color; emissive: THREE.Color; emissiveIntensity: number }> = {
+  rock: { color: new THREE.Color(0x4b5563), emissive: new THREE.Color(0x111827), emissiveIntensity: 0.2 },
+  wall: { color: new THREE.Color(0x334155), emissive: new THREE.Color(0x38bdf8), emissiveIntensity: 0.35 },
+  mud: { color: new THREE.Color(0x5b3a1e), emissive: new THREE.Color(0x3f2a12), emissiveIntensity: 0.3 },
+  spikes: { color: new THREE.Color(0x9ca3af), emissive: new THREE.Color(0xef4444), emissiveIntensity: 0.45 }
+};
+
 const tileTextureCache = new Map<TileOwner, THREE.CanvasTexture>();
 
 const createTileSurfaceTexture = (owner: TileOwner) => {
@@ -181,6 +191,67 @@ const createTileMesh = (owner: TileOwner, tileSize: number, tileThickness: numbe
   return { tileGroup, mesh, material, glow, glowMaterial };
 };
 
+// Rocks and walls stand on the tile; mud and spikes lie flat so units can stand on them
+const createTerrainMesh = (type: TerrainType, tileSize: number, tileThickness: number): THREE.Object3D => {
+  const palette = terrainPalette[type];
+  const material = new THREE.MeshStandardMaterial({
+    color: palette.color,
+    emissive: palette.emissive,
+    emissiveIntensity: palette.emissiveIntensity,
+    metalness: type === 'wall' ? 0.6 : 0.1,
+    roughness: type === 'wall' ? 0.4 : 0.9
+  });
+
+  if (type === 'rock') {
+    const rock = new THREE.Mesh(new THREE.DodecahedronGeometry(tileSize * 0.38), material);
+    rock.scale.set(1, 0.75, 1);
+    rock.position.y = tileThickness + tileSize * 0.24;
+    rock.castShadow = true;
+    rock.receiveShadow = true;
+    return rock;
+  }
+
+  if (type === 'wall') {
+    const height = tileSize * 0.7;
+    const wall = new THREE.Mesh(new THREE.BoxGeometry(tileSize, height, tileSize * 0.3), material);
+    wall.position.y = tileThickness + height / 2;
+    wall.castShadow = true;
+    wall.receiveShadow = true;
+    return wall;
+  }
+
+  if (type === 'mud') {
+    const mudGeometry = new THREE.CircleGeometry(tileSize * 0.46, 24);
+    mudGeometry.rotateX(-Math.PI / 2);
+    material.transparent = true;
+    material.opacity = 0.85;
+    const mud = new THREE.Mesh(mudGeometry, material);
+    mud.position.y = tileThickness + 0.01;
+    mud.receiveShadow = true;
+    return mud;
+  }
+
+  const spikes = new THREE.Group();
+  const spikeGeometry = new THREE.ConeGeometry(tileSize * 0.07, tileSize * 0.22, 6);
+  const spread = tileSize * 0.25;
+  for (const [x, z] of [[-1, -1], [1, -1], [0, 0], [-1, 1], [1, 1]]) {
+    const spike = new THREE.Mesh(spikeGeometry, material);
+    spike.position.set(x * spread, tileThickness + tileSize * 0.11, z * spread);
+    spike.castShadow = true;
+    spikes.add(spike);
+  }
+  return spikes;
+};
+
+const disposeObject = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+};
+
 export const createTacticalBoard = ({ boardRows, boardCols, cellSize, forceOwner }: TacticalBoardOptions): TacticalBoard => {
   const boardGroup = new THREE.Group();
   boardGroup.name = 'TacticalBoard';
@@ -264,6 +335,26 @@ export const createTacticalBoard = ({ boardRows, boardCols, cellSize, forceOwner
     }
   }
 
+  const terrainGroup = new THREE.Group();
+  terrainGroup.name = 'Terrain';
+  boardGroup.add(terrainGroup);
+
+  const setTerrain = (terrain: TerrainTile[]) => {
+    [...terrainGroup.children].forEach((child) => {
+      terrainGroup.remove(child);
+      disposeObject(child);
+    });
+    terrain.forEach(({ row, col, type }) => {
+      if (row < 0 || row >= boardRows || col < 0 || col >= boardCols) return;
+      const prop = createTerrainMesh(type, tileSize, tileThickness);
+      const { x, z } = cellToWorld(row, col, boardRows, boardCols);
+      prop.position.x = x;
+      prop.position.z = z;
+      prop.userData = { terrain: type, row, col };
+      terrainGroup.add(prop);
+    });
+  };
+
   const setTileOwner = (row: number, col: number, owner: TileOwner) => {
     const tile = tiles.get(boardKey(row, col));
     if (!tile) return;
@@ -322,6 +413,7 @@ export const createTacticalBoard = ({ boardRows, boardCols, cellSize, forceOwner
     clearEffects,
     clearOccupants,
     setTileHoverState,
-    clearHoverStates
+    clearHoverStates,
+    setTerrain
   };
 };
@@ -7,6 +7,7 @@ import type { PlacedUnit, Position } from '../../types';
 import type { AttackType, DemoState, HitEvent } from '../../types/battle';
 import { boardKey, cellToWorld } from '../../constants/board';
 import { COMPUTED_ANIMATION_DURATIONS } from '../../data/animationMetadata';
+import { getUnitLevel } from '../../../shared/gddUnits';
 
 export type AnimationState = 'idle' | 'walk' | 'fight' | 'death' | 'impact';
 export type ModelKey = string;
@@ -71,6 +72,8 @@ export interface UnitVisual {
   hpAnimationStartValue?: number; // HP value when animation started
   shieldAnimationStartValue?: number; // Shield value when animation started
   showHpDetails: boolean; // Whether to show heart icon and HP number
+  paralyzedTurns: number; // Remaining paralysis turns, outlined on the HP plate
+  level: number; // Veterancy level, badged on the HP plate from level 2
 }
 
 const playerColor = new THREE.Color(0x5ea3ff);
@@ -84,6 +87,7 @@ const HP_PLANE_HEIGHT = 0.22;
 const HP_PLANE_BASE_HEIGHT = 2.05;
 const HP_PLANE_BOB_AMPLITUDE = 0.05;
 const HP_PLANE_BOB_SPEED = 0.0015;
+const HP_LEVEL_BADGE_WIDTH = 36; // Room reserved left of the bar for a veteran's level
 const HP_ANIMATION_DURATION_MS = 400; // Duration for HP bar to animate down
 
 const MOVE_DURATION_MS = 780;
@@ -102,6 +106,9 @@ const ARROW_FORWARD_OFFSET = 0.35;
 const ARCHER_UNIT_ID = 'archer';
 const MAX_PROCESSED_HIT_IDS = 128;
 
+const getParalyzedTurns = (unit: PlacedUnit) =>
+  unit.statusEffects?.find((effect) => effect.type === 'paralyzed')?.turnsRemaining ?? 0;
+
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
 const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
 const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
@@ -314,7 +321,9 @@ const createHpCanvas = (unit: PlacedUnit, showHpDetails: boolean = false) => {
   const hpSegments = Math.max(1, Math.ceil(unit.hp));
   const totalSegments = Math.max(1, shieldSegments + hpSegments);
   const numberArea = showHpDetails ? 56 : 0;
-  const canvasWidth = HP_CANVAS_PADDING + totalSegments * HP_SEGMENT_WIDTH + (totalSegments - 1) * HP_SEGMENT_GAP + numberArea;
+  const level = getUnitLevel(unit.xp);
+  const levelArea = level > 1 ? HP_LEVEL_BADGE_WIDTH : 0;
+  const canvasWidth = HP_CANVAS_PADDING + levelArea + totalSegments * HP_SEGMENT_WIDTH + (totalSegments - 1) * HP_SEGMENT_GAP + numberArea;
   canvas.width = Math.round(canvasWidth * dpr);
   canvas.height = Math.round(HP_CANVAS_HEIGHT * dpr);
   // store logical size for drawing calculations on the canvas
@@ -336,7 +345,18 @@ const createHpCanvas = (unit: PlacedUnit, showHpDetails: boolean = false) => {
   texture.minFilter = THREE.LinearFilter;
   const currentHp = unit.currentHp ?? unit.hp;
   const currentShield = unit.currentShield ?? maxShield;
-  updateHpCanvas(canvas, texture, currentHp, unit.hp, unit.team, showHpDetails, currentShield, maxShield);
+  updateHpCanvas(
+    canvas,
+    texture,
+    currentHp,
+    unit.hp,
+    unit.team,
+    showHpDetails,
+    currentShield,
+    maxShield,
+    getParalyzedTurns(unit),
+    level
+  );
   return { canvas, texture, plane };
 };
 
@@ -348,7 +368,9 @@ const updateHpCanvas = (
   team: 'player' | 'enemy',
   showHpDetails: boolean = false,
   displayShield: number = 0,
-  maxShield: number = 0
+  maxShield: number = 0,
+  paralyzedTurns: number = 0,
+  level: number = 1
 ) => {
   const ctx = canvas.getContext('2d');
   if (!ctx) return;
@@ -377,15 +399,25 @@ const updateHpCanvas = (
   drawRoundedRect(ctx, containerX, containerY, containerWidth, containerHeight, containerRadius);
   ctx.fill();
 
-  // Subtle outline
-  ctx.strokeStyle = 'rgba(148,163,184,0.45)';
-  ctx.lineWidth = Math.max(0.5, 0.5 * dpr);
+  // Subtle outline (violet and thicker while paralyzed)
+  ctx.strokeStyle = paralyzedTurns > 0 ? 'rgba(192,132,252,0.95)' : 'rgba(148,163,184,0.45)';
+  ctx.lineWidth = paralyzedTurns > 0 ? Math.max(1.5, 2 * dpr) : Math.max(0.5, 0.5 * dpr);
   drawRoundedRect(ctx, containerX + Math.max(0.25, 0.5 * dpr), containerY + Math.max(0.25, 0.5 * dpr), containerWidth - Math.max(1, 1 * dpr), containerHeight - Math.max(1, 1 * dpr), containerRadius);
   ctx.stroke();
 
   // Inner track (inset area for HP bar)
   const numberArea = showHpDetails ? Math.round(56 * dpr) : 0;
-  const trackX = Math.round(20 * dpr);
+  const levelArea = level > 1 ? Math.round(HP_LEVEL_BADGE_WIDTH * dpr) : 0;
+  const trackX = Math.round(20 * dpr) + levelArea;
+
+  // Veteran badge ahead of the segments
+  if (levelArea > 0) {
+    ctx.font = `800 ${Math.round(16 * dpr)}px system-ui, -apple-system, sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#fcd34d';
+    ctx.fillText(`★${level}`, Math.round(20 * dpr), Math.round(canvas.height / 2) + 0.75);
+  }
   const trackY = Math.round((canvas.height - HP_BAR_HEIGHT * dpr) / 2);
   const trackHeight = Math.round(HP_BAR_HEIGHT * dpr);
 
@@ -876,7 +908,9 @@ const createVisual = (
     hpAnimationStartTime: undefined,
     hpAnimationStartValue: undefined,
     shieldAnimationStartValue: undefined,
-    showHpDetails
+    showHpDetails,
+    paralyzedTurns: getParalyzedTurns(unit),
+    level: getUnitLevel(unit.xp)
   };
 };
 
@@ -1315,7 +1349,9 @@ export const useUnitLayer = (
           visual.team,
           visual.showHpDetails,
           visual.displayShield,
-          visual.maxShield
+          visual.maxShield,
+          visual.paralyzedTurns,
+          visual.level
         );
       }
       
@@ -1334,7 +1370,9 @@ export const useUnitLayer = (
           visual.team,
           visual.showHpDetails,
           visual.displayShield,
-          visual.maxShield
+          visual.maxShield,
+          visual.paralyzedTurns,
+          visual.level
         );
       }
     });
@@ -1386,6 +1424,24 @@ export const useUnitLayer = (
         }
 
         visual.glowMaterial.opacity = targetOpacity;
+
+        const paralyzedTurns = getParalyzedTurns(unit);
+        if (paralyzedTurns !== visual.paralyzedTurns) {
+          visual.paralyzedTurns = paralyzedTurns;
+          updateHpCanvas(
+            visual.hpCanvas,
+            visual.hpTexture,
+            visual.displayHp,
+            visual.maxHp,
+            visual.team,
+            visual.showHpDetails,
+            visual.displayShield,
+            visual.maxShield,
+            visual.paralyzedTurns,
+            visual.level
+          );
+        }
+
         if (visual.isCustomMesh) {
           const resolvedAnimation: AnimationState = demoState === 'idle' ? 'idle' : targetAnimation;
           setVisualAnimation(visual, resolvedAnimation);
@@ -1424,7 +1480,9 @@ export const useUnitLayer = (
               visual.team,
               visual.showHpDetails,
               desiredShield,
-              visual.maxShield
+              visual.maxShield,
+              visual.paralyzedTurns,
+              visual.level
             );
           }
         });
@@ -49,7 +49,7 @@ const createDefaultProfile = (id: string, username: string): PlayerProfile => {
       id: createId(),
       unitId: 'archer',
       condition: 'Enemy in range',
-      action: 'Attack priority'
+      action: 'Attack priority target'
     }
   ];
 
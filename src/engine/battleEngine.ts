@@ -1,30 +1,38 @@
-import type { PlacedUnit, Position, Unit } from '../types';
-import type { HitEvent } from '../types/battle';
+import type { PlacedUnit, Position, StatusEffect, StatusEffectType, Unit } from '../types';
+import type { HitEvent, StatusEvent, UnitActionReason, UnitActionRecord } from '../types/battle';
 import { applyAttackToUnit } from './attackResolution';
+import type { AttackResolutionResult } from './attackResolution';
+import { getUnitPattern, resolveBehavior } from '../../shared/gddUnits';
+import type { BehaviorKey, BehaviorValues, TileOffset } from '../../shared/gddUnits';
+import { OPEN_FIELD, TERRAIN_RULES, getTerrainAt } from '../../shared/battleMaps';
+import type { BattleMap } from '../../shared/battleMaps';
+import { CURRENT_RULESET, deploymentZoneStart } from '../../shared/ruleset';
+import type { BoardDimensions, ResolutionMode, Ruleset } from '../../shared/ruleset';
+import { matchStrategyRule } from './strategyRules';
+import type { StrategyAction, StrategyContext } from './strategyRules';
 
 export type { PlacedUnit } from '../types';
+export type { ResolutionMode } from '../../shared/ruleset';
 
 /**
- * BOARD CONFIGURATION - Single Source of Truth
- * 
- * These constants define the battle board dimensions:
+ * BOARD CONFIGURATION
+ *
+ * Board dimensions belong to the ruleset (shared/ruleset.ts); the engine reads them from the
+ * ruleset a battle was initialized with. These constants describe the current ruleset's board
+ * for callers that have no match at hand:
  * - BOARD_SIZE: Total rows (12) - full vertical height of the board
  * - BOARD_COLS: Total columns (6) - full horizontal width of the board
  * - PLAYER_ROWS: Rows available for each player's deployment zone (6)
  * - PLAYER_ZONE_START: Starting row for player's deployment zone (6)
- * 
- * The board is 12 rows x 6 columns:
+ *
+ * The current board is 12 rows x 6 columns:
  * - Rows 0-5: Enemy deployment zone (from player perspective)
  * - Rows 6-11: Player deployment zone
- * 
- * These values are exported to:
- * - dist/engine/battleEngine.cjs (generated bundle used by the server)
- * - All client components that need board dimensions
  */
-export const BOARD_SIZE = 12;
-export const BOARD_COLS = 6;
-export const PLAYER_ROWS = 6;
-export const PLAYER_ZONE_START = BOARD_SIZE - PLAYER_ROWS;
+export const BOARD_SIZE = CURRENT_RULESET.board.rows;
+export const BOARD_COLS = CURRENT_RULESET.board.cols;
+export const PLAYER_ROWS = CURRENT_RULESET.board.deploymentRows;
+export const PLAYER_ZONE_START = deploymentZoneStart(CURRENT_RULESET.board);
 
 export const DEFAULT_ENEMY_FORMATION: Position[] = [
   { row: 0, col: 1 },
@@ -38,24 +46,104 @@ export const DEFAULT_ENEMY_FORMATION: Position[] = [
 
 export type Team = 'player' | 'enemy';
 
+/**
+ * Why a battle ended (GDD 3):
+ * - breach: a unit reached the opposing back row
+ * - elimination: one side has no living units left
+ * - stalemate: the board can never change again, so neither side has a path to win
+ */
+export type BattleEndReason = 'breach' | 'elimination' | 'noPathToWin' | 'stalemate';
+
+/** End reasons reported in a battle summary; tickLimit means the simulation was cut off */
+export type BattleOutcomeReason = BattleEndReason | 'tickLimit';
+
+export interface TeamBattleStats {
+  kills: number;
+  /** HP damage dealt by this team's attacks */
+  damageDealt: number;
+  /** Damage soaked by this team's shields */
+  damageAbsorbed: number;
+}
+
+/** End-of-battle summary shared by the server result message and the client result screen */
+export interface BattleSummary {
+  winner: Team | null;
+  reason: BattleOutcomeReason;
+  breachUnitId: string | null;
+  totalTurns: number;
+  teams: Record<Team, TeamBattleStats>;
+}
+
+/** Experience one unit earned in a battle, attributed from the timeline's hit events */
+export interface UnitXpAward {
+  instanceId: string;
+  team: Team;
+  kills: number;
+  damageDealt: number;
+  survived: boolean;
+  xp: number;
+}
+
+/** Consecutive quiet turns (one per team) after which the board is frozen for good */
+const STALEMATE_QUIET_TURNS = 2;
+
 export interface BattleState {
   units: PlacedUnit[];
   currentTeam: Team;
   turnNumber: number;
+  seed: number;
+  resolutionMode: ResolutionMode;
+  map: BattleMap;
+  ruleset: Ruleset;
+}
+
+export interface BattleInitOptions {
+  /** Forces the starting team; the seed is still recorded for replays */
+  startingTeam?: Team;
+  /** Seed for the lucky draw; a fresh one is minted when omitted */
+  seed?: number;
+  /** Overrides the ruleset's resolution variant */
+  resolutionMode?: ResolutionMode;
+  /** Terrain the battle is fought on; defaults to the open field */
+  map?: BattleMap;
+  /** Rules the battle is played under; defaults to the current ruleset */
+  ruleset?: Ruleset;
 }
 
 export interface BattleTickResult {
   units: PlacedUnit[];
   hits: string[];
   hitEvents: HitEvent[];
+  statusEvents: StatusEvent[];
   moves: string[];
+  /** One record per living unit of the acting team, in resolution order */
+  actions: UnitActionRecord[];
   winner: Team | null;
+  /** Set once the battle is over; winner stays null for a stalemate */
+  endReason: BattleEndReason | null;
+  /** Consecutive turns in which nothing on the board changed; feed back into the next tick */
+  quietTurns: number;
   currentTeam: Team;
   turnNumber: number;
 }
 
-/** Randomly picks which team starts the battle */
-export const luckyDraw = (): Team => (Math.random() < 0.5 ? 'player' : 'enemy');
+/** Mulberry32: tiny deterministic PRNG so a recorded seed replays the same draw */
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Mints a new 32-bit battle seed; the only non-deterministic input to a battle */
+export const createBattleSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+/** Picks which team starts the battle from the given seed */
+export const luckyDraw = (seed: number): Team => (createSeededRandom(seed)() < 0.5 ? 'player' : 'enemy');
 
 /** Returns the opposing team */
 const otherTeam = (team: Team): Team => (team === 'player' ? 'enemy' : 'player');
@@ -65,89 +153,398 @@ const cloneUnits = (units: PlacedUnit[]): PlacedUnit[] =>
     ...unit,
     position: { ...unit.position },
     currentHp: unit.currentHp ?? unit.hp,
-    currentShield: unit.currentShield ?? unit.shield ?? 0
+    currentShield: unit.currentShield ?? unit.shield ?? 0,
+    statusEffects: unit.statusEffects?.map((effect) => ({ ...effect }))
   }));
 
 const isAlive = (unit: PlacedUnit) => (unit.currentHp ?? unit.hp) > 0;
 
-const manhattan = (a: Position, b: Position) => Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
+/** Everything a unit sees when it plans: the units on the board, the terrain under them and the board's size */
+interface BoardSnapshot {
+  units: PlacedUnit[];
+  map: BattleMap;
+  board: BoardDimensions;
+}
+
+const getOccupant = (snapshot: BoardSnapshot, row: number, col: number): PlacedUnit | undefined =>
+  snapshot.units.find((unit) => isAlive(unit) && unit.position.row === row && unit.position.col === col);
+
+const getStatusEffect = (unit: PlacedUnit, type: StatusEffectType): StatusEffect | undefined =>
+  unit.statusEffects?.find((effect) => effect.type === type);
+
+const isParalyzed = (unit: PlacedUnit) => !!getStatusEffect(unit, 'paralyzed');
+
+const isSlowed = (unit: PlacedUnit) => !!getStatusEffect(unit, 'slowed');
+
+/** Rocks and walls can never be entered; a unit deployed on one may still step off */
+const isPassable = (snapshot: BoardSnapshot, row: number, col: number): boolean => {
+  const terrain = getTerrainAt(snapshot.map, row, col);
+  return !terrain || TERRAIN_RULES[terrain].passable;
+};
+
+/** Applies an effect, replacing any effect of the same type. Returns true when an existing timer was refreshed. */
+const applyStatusEffect = (unit: PlacedUnit, effect: StatusEffect): boolean => {
+  const existing = unit.statusEffects ?? [];
+  const refreshed = existing.some((current) => current.type === effect.type);
+  unit.statusEffects = [...existing.filter((current) => current.type !== effect.type), { ...effect }];
+  return refreshed;
+};
 
-const getOccupant = (units: PlacedUnit[], row: number, col: number): PlacedUnit | undefined =>
-  units.find((unit) => isAlive(unit) && unit.position.row === row && unit.position.col === col);
+/**
+ * Counts down effects on the acting team; effects expire once they have covered their turns.
+ * When carriedOver is given, only those effects count down - ones applied during this turn are kept whole.
+ */
+const tickStatusEffects = (units: PlacedUnit[], team: Team, carriedOver?: Set<StatusEffect>): void => {
+  for (const unit of units) {
+    if (unit.team !== team || !unit.statusEffects) continue;
+    unit.statusEffects = unit.statusEffects
+      .map((effect) => (carriedOver && !carriedOver.has(effect)
+        ? effect
+        : { ...effect, turnsRemaining: effect.turnsRemaining - 1 }))
+      .filter((effect) => effect.turnsRemaining > 0);
+  }
+};
 
 const directionForTeam = (team: PlacedUnit['team']) => (team === 'player' ? -1 : 1);
 
-const targetRowForTeam = (team: PlacedUnit['team']) => (team === 'player' ? 0 : BOARD_SIZE - 1);
+/**
+ * Canonical resolution order (GDD 4.2): front rows resolve before back rows, then columns left to right.
+ * "Front" is measured along the unit's own direction of travel.
+ */
+const compareResolutionOrder = (a: PlacedUnit, b: PlacedUnit): number => {
+  if (a.team !== b.team) {
+    return a.team === 'player' ? -1 : 1;
+  }
+  const rowDelta = (b.position.row - a.position.row) * directionForTeam(a.team);
+  return rowDelta || a.position.col - b.position.col;
+};
+
+const sortByResolutionOrder = (units: PlacedUnit[]): PlacedUnit[] => [...units].sort(compareResolutionOrder);
 
-const isLaneClear = (snapshot: PlacedUnit[], startRow: number, col: number, direction: number): boolean => {
-  for (let row = startRow + direction; row >= 0 && row < BOARD_SIZE; row += direction) {
-    if (getOccupant(snapshot, row, col)) {
+const targetRowForTeam = (team: PlacedUnit['team'], board: BoardDimensions) => (team === 'player' ? 0 : board.rows - 1);
+
+const isLaneClear = (snapshot: BoardSnapshot, startRow: number, col: number, direction: number): boolean => {
+  for (let row = startRow + direction; row >= 0 && row < snapshot.board.rows; row += direction) {
+    if (getOccupant(snapshot, row, col) || !isPassable(snapshot, row, col)) {
       return false;
     }
   }
   return true;
 };
 
-const ARCHER_ID = 'archer';
-const RECRUIT_ID = 'recruit';
-const ARCHER_FORWARD_RANGE = 5; // keep constant for now; future player configs can override
-const ARCHER_FORWARD_COLUMN_OFFSETS = [-1, 0, 1];
+const GIANT_ID = 'giant';
+const MAGE_ID = 'mage';
+const ZOMBIE_ID = 'zombie';
+const PARALYSIS_TURNS = 3;
 
-const findClosestTarget = (actor: PlacedUnit, candidates: PlacedUnit[], targetPreference?: string) => {
-  const enemies = candidates.filter((unit) => unit.team !== actor.team && isAlive(unit));
-  if (enemies.length === 0) return undefined;
-  
-  // Check if archer prefers strongest or weakest
-  const preferStrongest = targetPreference?.includes('Strongest') ?? false;
-  const preferWeakest = targetPreference?.includes('Weakest') ?? true; // default to weakest
-  
-  if (preferStrongest) {
-    // Sort by HP descending (strongest first)
-    enemies.sort((a, b) => (b.currentHp ?? b.hp) - (a.currentHp ?? a.hp));
-  } else if (preferWeakest) {
-    // Sort by HP ascending (weakest first)
-    enemies.sort((a, b) => (a.currentHp ?? a.hp) - (b.currentHp ?? b.hp));
+const FORWARD_STEP: TileOffset = { forward: 1, lateral: 0 };
+
+/** Speed is ticks per action: a unit with speed n acts on every n-th turn of its own team */
+export const getActionInterval = (unit: Pick<PlacedUnit, 'speed'>): number =>
+  Math.max(1, Math.floor(unit.speed) || 1);
+
+/**
+ * Teams alternate turns, so each team's own turn count is half the global one. Every unit acts on
+ * its team's first turn, then waits out its interval.
+ */
+export const isReadyToAct = (unit: Pick<PlacedUnit, 'speed'>, turnNumber: number): boolean =>
+  Math.floor((turnNumber - 1) / 2) % getActionInterval(unit) === 0;
+
+/** Resolves an offset seen from the unit to a board tile, or undefined when it falls off the board */
+const tileAt = (actor: PlacedUnit, snapshot: BoardSnapshot, offset: TileOffset): Position | undefined => {
+  const row = actor.position.row + directionForTeam(actor.team) * offset.forward;
+  const col = actor.position.col + offset.lateral;
+  if (row < 0 || row >= snapshot.board.rows || col < 0 || col >= snapshot.board.cols) {
+    return undefined;
   }
-  
-  return enemies[0];
+  return { row, col };
 };
 
-const findArcherForwardTarget = (actor: PlacedUnit, snapshot: PlacedUnit[]): PlacedUnit | undefined => {
-  const direction = directionForTeam(actor.team);
-  const validCols = ARCHER_FORWARD_COLUMN_OFFSETS.map((offset) => actor.position.col + offset).filter(
-    (col) => col >= 0 && col < BOARD_COLS
-  );
-  const candidates: PlacedUnit[] = [];
-  for (let step = 1; step <= ARCHER_FORWARD_RANGE; step += 1) {
-    const row = actor.position.row + direction * step;
-    if (row < 0 || row >= BOARD_SIZE) {
-      break;
+/** Like tileAt, for a tile the unit would move onto: impassable terrain counts as off the board */
+const stepTo = (actor: PlacedUnit, snapshot: BoardSnapshot, offset: TileOffset): Position | undefined => {
+  const tile = tileAt(actor, snapshot, offset);
+  return tile && isPassable(snapshot, tile.row, tile.col) ? tile : undefined;
+};
+
+/**
+ * Arrows travel in a straight line from shooter to target; a wall on any tile between them
+ * (the column rounded along the line) stops the shot. Rocks are low enough to shoot over.
+ */
+const hasLineOfFire = (snapshot: BoardSnapshot, from: Position, to: Position): boolean => {
+  const rowSpan = to.row - from.row;
+  const step = Math.sign(rowSpan);
+  for (let row = from.row + step; row !== to.row; row += step) {
+    const col = Math.round(from.col + ((to.col - from.col) * (row - from.row)) / rowSpan);
+    const terrain = getTerrainAt(snapshot.map, row, col);
+    if (terrain && TERRAIN_RULES[terrain].blocksArrows) {
+      return false;
     }
-    for (const col of validCols) {
-      const target = getOccupant(snapshot, row, col);
-      if (target) {
-        candidates.push(target);
-      }
+  }
+  return true;
+};
+
+/** Only steps listed in the unit's pattern are ever taken */
+const canStep = (actor: PlacedUnit, offset: TileOffset): boolean =>
+  getUnitPattern(actor.id, actor.upgrades).moves.some((move) => move.forward === offset.forward && move.lateral === offset.lateral);
+
+/** Sideways steps from the unit's pattern, preferred side first */
+const sidestepOffsets = (actor: PlacedUnit, prefersRight: boolean): TileOffset[] =>
+  getUnitPattern(actor.id, actor.upgrades).moves
+    .filter((move) => move.forward === 0 && move.lateral !== 0)
+    .sort((a, b) => (prefersRight ? b.lateral - a.lateral : a.lateral - b.lateral));
+
+/** The unit's configured value for a behavior category, or the schema default */
+const behaviorOf = <K extends BehaviorKey>(actor: PlacedUnit, key: K): BehaviorValues[K] | undefined =>
+  resolveBehavior(actor.id, actor.behaviorConfig, key);
+
+/** Orders candidates by the unit's target preference; ties keep the pattern's tile order */
+const applyTargetPreference = (
+  candidates: PlacedUnit[],
+  targetPreference: BehaviorValues['targetPreference'] | undefined
+): PlacedUnit[] => {
+  const hpOf = (unit: PlacedUnit) => unit.currentHp ?? unit.hp;
+  if (targetPreference === 'strongest') {
+    return [...candidates].sort((a, b) => hpOf(b) - hpOf(a));
+  }
+  if (targetPreference === 'weakest') {
+    return [...candidates].sort((a, b) => hpOf(a) - hpOf(b));
+  }
+  return candidates;
+};
+
+const enemiesAtOffsets = (actor: PlacedUnit, snapshot: BoardSnapshot, offsets: TileOffset[]): PlacedUnit[] => {
+  const enemies: PlacedUnit[] = [];
+  for (const offset of offsets) {
+    const tile = tileAt(actor, snapshot, offset);
+    const occupant = tile ? getOccupant(snapshot, tile.row, tile.col) : undefined;
+    if (occupant && occupant.team !== actor.team) {
+      enemies.push(occupant);
     }
   }
-  const targetPref = actor.selectedBehaviors?.find(b => b.includes('Target Preference:')) ?? '';
-  return findClosestTarget(actor, candidates, targetPref);
+  return enemies;
+};
+
+/** Enemies on the unit's ranged tiles that an arrow can actually reach */
+const rangedEnemiesAtOffsets = (actor: PlacedUnit, snapshot: BoardSnapshot, offsets: TileOffset[]): PlacedUnit[] =>
+  enemiesAtOffsets(actor, snapshot, offsets).filter((enemy) => hasLineOfFire(snapshot, actor.position, enemy.position));
+
+const GIANT_ARC_COLUMN_OFFSETS: Record<BehaviorValues['attackArc'], number> = { left: -1, center: 0, right: 1 };
+
+/**
+ * Giants strike one of the tiles in their front arc (GDD 7.5).
+ * The selected arc picks the primary tile; when it holds no enemy the Giant falls back
+ * to the closest occupied tile in the arc, resolving ties left to right.
+ */
+const orderGiantArc = (actor: PlacedUnit, offsets: TileOffset[]): TileOffset[] => {
+  const primary = GIANT_ARC_COLUMN_OFFSETS[behaviorOf(actor, 'attackArc') ?? 'left'];
+  return [...offsets].sort(
+    (a, b) => Math.abs(a.lateral - primary) - Math.abs(b.lateral - primary) || a.lateral - b.lateral
+  );
+};
+
+interface ReachTarget {
+  target: PlacedUnit;
+  attackType: 'melee' | 'ranged';
+}
+
+/**
+ * Picks a target from the unit's attack pattern. Melee tiles take priority over the ranged zone;
+ * within a zone the unit's target preference decides, then the pattern's tile order.
+ */
+const findReachTarget = (actor: PlacedUnit, snapshot: BoardSnapshot): ReachTarget | undefined => {
+  const pattern = getUnitPattern(actor.id, actor.upgrades);
+  const targetPref = behaviorOf(actor, 'targetPreference');
+  const meleeTiles = actor.id === GIANT_ID ? orderGiantArc(actor, pattern.melee) : pattern.melee;
+  const [meleeTarget] = applyTargetPreference(enemiesAtOffsets(actor, snapshot, meleeTiles), targetPref);
+  if (meleeTarget) {
+    return { target: meleeTarget, attackType: 'melee' };
+  }
+  const [rangedTarget] = applyTargetPreference(rangedEnemiesAtOffsets(actor, snapshot, pattern.ranged), targetPref);
+  return rangedTarget ? { target: rangedTarget, attackType: 'ranged' } : undefined;
+};
+
+/**
+ * After paralyzing, a Mage tries to slip sideways on its next turn (GDD 7.6).
+ * The preferred side is tried first, then the other one.
+ */
+const findMageSidestep = (actor: PlacedUnit, snapshot: BoardSnapshot): Position | undefined => {
+  for (const offset of sidestepOffsets(actor, behaviorOf(actor, 'sidestep') === 'right')) {
+    const tile = stepTo(actor, snapshot, offset);
+    if (tile && !getOccupant(snapshot, tile.row, tile.col)) {
+      return tile;
+    }
+  }
+  return undefined;
 };
 
 /** Collects all pending actions from a team's units without applying them yet */
 interface PendingAction {
   actor: PlacedUnit;
-  type: 'move' | 'attack';
+  type: 'move' | 'swap' | 'attack' | 'paralyze' | 'idle' | 'paralyzed';
   targetPosition?: Position;
   targetUnit?: PlacedUnit;
   attackType?: 'melee' | 'ranged';
   newPosition?: Position;
+  /** Why an idle unit has nothing to do */
+  reason?: UnitActionReason;
+  /** Strategy rule that chose this action, if any */
+  ruleId?: string;
 }
 
+const idle = (actor: PlacedUnit, reason: UnitActionReason): PendingAction => ({ actor, type: 'idle', reason });
+
+/** Attacks the reach target, or paralyzes it for units whose pattern paralyzes */
+const strikeAction = (actor: PlacedUnit, reachTarget: ReachTarget): PendingAction =>
+  getUnitPattern(actor.id, actor.upgrades).attackType === 'paralyze'
+    ? {
+      actor,
+      type: 'paralyze',
+      targetUnit: reachTarget.target,
+      targetPosition: { ...reachTarget.target.position }
+    }
+    : {
+      actor,
+      type: 'attack',
+      targetUnit: reachTarget.target,
+      targetPosition: { ...reachTarget.target.position },
+      attackType: reachTarget.attackType
+    };
+
+/**
+ * Zombies follow a fixed pattern (GDD 7.7): try the preferred sidestep, then forward.
+ * An enemy on the tried tile is attacked; an ally there means the path is blocked.
+ * Returns undefined when every path is blocked and the Zombie idles.
+ */
+const planZombieAction = (actor: PlacedUnit, snapshot: BoardSnapshot): PendingAction | undefined => {
+  const prefersRight = behaviorOf(actor, 'sidestep') === 'right';
+  const pattern = getUnitPattern(actor.id, actor.upgrades);
+  const [preferredSide] = sidestepOffsets(actor, prefersRight);
+  const paths = [
+    ...(preferredSide ? [preferredSide] : []),
+    ...pattern.moves.filter((move) => move.forward > 0)
+  ];
+
+  for (const path of paths) {
+    const tile = tileAt(actor, snapshot, path);
+    if (!tile) {
+      continue;
+    }
+    const occupant = getOccupant(snapshot, tile.row, tile.col);
+    if (!occupant) {
+      if (!isPassable(snapshot, tile.row, tile.col)) {
+        continue;
+      }
+      return { actor, type: 'move', newPosition: tile };
+    }
+    const canStrike = pattern.melee.some((offset) => offset.forward === path.forward && offset.lateral === path.lateral);
+    if (occupant.team !== actor.team && canStrike) {
+      return {
+        actor,
+        type: 'attack',
+        targetUnit: occupant,
+        targetPosition: { ...occupant.position },
+        attackType: 'melee'
+      };
+    }
+  }
+
+  return undefined;
+};
+
+const RULE_SIDESTEPS: TileOffset[] = [{ forward: 0, lateral: -1 }, { forward: 0, lateral: 1 }];
+const RULE_RETREAT_STEPS: TileOffset[] = [{ forward: -1, lateral: 0 }, { forward: -2, lateral: 0 }];
+const RULE_SWAP_OFFSETS: TileOffset[] = [FORWARD_STEP, ...RULE_SIDESTEPS, RULE_RETREAT_STEPS[0]];
+
+const freeTileAt = (actor: PlacedUnit, snapshot: BoardSnapshot, offset: TileOffset): Position | undefined => {
+  const tile = stepTo(actor, snapshot, offset);
+  return tile && !getOccupant(snapshot, tile.row, tile.col) ? tile : undefined;
+};
+
+const buildStrategyContext = (actor: PlacedUnit, snapshot: BoardSnapshot): StrategyContext => {
+  const pattern = getUnitPattern(actor.id, actor.upgrades);
+  const enemiesInRange = [
+    ...enemiesAtOffsets(actor, snapshot, pattern.melee),
+    ...rangedEnemiesAtOffsets(actor, snapshot, pattern.ranged)
+  ];
+  const forwardTile = stepTo(actor, snapshot, FORWARD_STEP);
+  return {
+    hpRatio: (actor.currentHp ?? actor.hp) / Math.max(1, actor.hp),
+    enemyInRange: enemiesInRange.length > 0,
+    allyInjuredNearby: snapshot.units.some((unit) =>
+      unit !== actor &&
+      unit.team === actor.team &&
+      isAlive(unit) &&
+      (unit.currentHp ?? unit.hp) < unit.hp &&
+      Math.abs(unit.position.row - actor.position.row) <= 1 &&
+      Math.abs(unit.position.col - actor.position.col) <= 1
+    ),
+    pathBlocked: !forwardTile || !!getOccupant(snapshot, forwardTile.row, forwardTile.col),
+    enemyTypesInRange: enemiesInRange.map((unit) => unit.id)
+  };
+};
+
+/**
+ * Turns a strategy rule's THEN action into a pending action. Rule actions are explicit orders,
+ * so they are not limited to the unit's move pattern; an order that cannot be carried out idles.
+ */
+const planRuleAction = (actor: PlacedUnit, snapshot: BoardSnapshot, action: StrategyAction): PendingAction => {
+  switch (action) {
+    case 'Move forward': {
+      const tile = freeTileAt(actor, snapshot, FORWARD_STEP);
+      return tile ? { actor, type: 'move', newPosition: tile } : idle(actor, 'ruleUnavailable');
+    }
+    case 'Shift sideways': {
+      for (const offset of RULE_SIDESTEPS) {
+        const tile = freeTileAt(actor, snapshot, offset);
+        if (tile) return { actor, type: 'move', newPosition: tile };
+      }
+      return idle(actor, 'ruleUnavailable');
+    }
+    case 'Retreat 2 tiles': {
+      // Falls back as far as it can, stopping before the first occupied tile
+      let destination: Position | undefined;
+      for (const offset of RULE_RETREAT_STEPS) {
+        const tile = freeTileAt(actor, snapshot, offset);
+        if (!tile) break;
+        destination = tile;
+      }
+      return destination ? { actor, type: 'move', newPosition: destination } : idle(actor, 'ruleUnavailable');
+    }
+    case 'Swap with ally': {
+      for (const offset of RULE_SWAP_OFFSETS) {
+        const tile = stepTo(actor, snapshot, offset);
+        const ally = tile ? getOccupant(snapshot, tile.row, tile.col) : undefined;
+        if (tile && ally && ally.team === actor.team) {
+          return { actor, type: 'swap', targetUnit: ally, newPosition: tile };
+        }
+      }
+      return idle(actor, 'ruleUnavailable');
+    }
+    case 'Hold position':
+      return idle(actor, 'holdPosition');
+    case 'Attack priority target': {
+      const reachTarget = findReachTarget(actor, snapshot);
+      return reachTarget ? strikeAction(actor, reachTarget) : idle(actor, 'ruleUnavailable');
+    }
+    default:
+      return idle(actor, 'ruleUnavailable');
+  }
+};
+
+/** Evaluates the unit's strategy book; undefined when no rule applies and default behavior runs */
+const planStrategyAction = (actor: PlacedUnit, snapshot: BoardSnapshot): PendingAction | undefined => {
+  if (!actor.strategyRules?.length) {
+    return undefined;
+  }
+  const matched = matchStrategyRule(actor.strategyRules, buildStrategyContext(actor, snapshot));
+  return matched ? { ...planRuleAction(actor, snapshot, matched.action), ruleId: matched.ruleId } : undefined;
+};
+
 /** Check if an ally unit at a given position will move forward this turn */
 const willAllyMoveForward = (
   allyAtPosition: PlacedUnit,
-  snapshot: PlacedUnit[],
+  snapshot: BoardSnapshot,
+  turnNumber: number,
   checkedUnits: Set<string>
 ): boolean => {
   // Prevent infinite recursion
@@ -156,23 +553,35 @@ const willAllyMoveForward = (
   }
   checkedUnits.add(allyAtPosition.instanceId);
 
-  const direction = directionForTeam(allyAtPosition.team);
-  const nextRow = allyAtPosition.position.row + direction;
+  if (isParalyzed(allyAtPosition) || isSlowed(allyAtPosition) || !isReadyToAct(allyAtPosition, turnNumber)) {
+    return false;
+  }
 
-  // Can't move if at board edge
-  if (nextRow < 0 || nextRow >= BOARD_SIZE) {
+  const forwardTile = stepTo(allyAtPosition, snapshot, FORWARD_STEP);
+
+  // Strategy rules override the default behavior
+  const ruleAction = planStrategyAction(allyAtPosition, snapshot);
+  if (ruleAction) {
+    return ruleAction.type === 'move' && !!forwardTile && ruleAction.newPosition?.row === forwardTile.row &&
+      ruleAction.newPosition.col === forwardTile.col;
+  }
+
+  // Can't move if at board edge, facing impassable terrain, or the pattern has no forward step
+  if (!forwardTile || !canStep(allyAtPosition, FORWARD_STEP)) {
     return false;
   }
 
-  // Check for archer forward attack - if archer has a target, it won't move
-  if (allyAtPosition.id === ARCHER_ID) {
-    const forwardTarget = findArcherForwardTarget(allyAtPosition, snapshot);
-    if (forwardTarget) {
-      return false; // Archer will attack instead of move
-    }
+  if (allyAtPosition.id === ZOMBIE_ID) {
+    const zombieAction = planZombieAction(allyAtPosition, snapshot);
+    return zombieAction?.type === 'move' && zombieAction.newPosition?.row === forwardTile.row;
   }
 
-  const occupant = getOccupant(snapshot, nextRow, allyAtPosition.position.col);
+  // Units with a target in their attack pattern strike instead of moving
+  if (findReachTarget(allyAtPosition, snapshot)) {
+    return false;
+  }
+
+  const occupant = getOccupant(snapshot, forwardTile.row, forwardTile.col);
 
   if (!occupant) {
     // No one in front, ally will move
@@ -180,204 +589,207 @@ const willAllyMoveForward = (
   }
 
   if (occupant.team !== allyAtPosition.team) {
-    // Enemy in front, ally will attack instead of move
+    // Enemy in front but outside the attack pattern, ally idles
     return false;
   }
 
   // Ally in front - check if that ally will also move forward (recursively)
-  return willAllyMoveForward(occupant, snapshot, checkedUnits);
+  return willAllyMoveForward(occupant, snapshot, turnNumber, checkedUnits);
 };
 
-const collectTeamActions = (
-  team: Team,
-  snapshot: PlacedUnit[]
-): PendingAction[] => {
-  const actions: PendingAction[] = [];
-  const teamUnits = snapshot.filter((unit) => unit.team === team && isAlive(unit));
-
-  for (const actor of teamUnits) {
-    const behaviors = actor.selectedBehaviors ?? [];
-    const isRecruit = actor.id === RECRUIT_ID;
-    const isRunner = isRecruit && behaviors.some((b) => b.includes('Runner'));
-    const isOpportunistic = isRecruit && behaviors.some((b) => b.includes('Opportunistic'));
-
-    if (isRunner) {
-      const direction = directionForTeam(actor.team);
-      const sideDirs = [-1, 1];
-      let movedSideways = false;
-      for (const side of sideDirs) {
-        const sideCol = actor.position.col + side;
-        if (sideCol < 0 || sideCol >= BOARD_COLS) continue;
-        if (getOccupant(snapshot, actor.position.row, sideCol)) continue;
-        if (isLaneClear(snapshot, actor.position.row, sideCol, direction)) {
-          actions.push({
-            actor,
-            type: 'move',
-            newPosition: { row: actor.position.row, col: sideCol }
-          });
-          movedSideways = true;
-          break;
-        }
-      }
-      if (movedSideways) {
-        continue; // Runner sidestep executed; skip to next unit
-      }
+/** First free sideways tile from the unit's pattern, optionally requiring a clear lane ahead of it */
+const findSidestep = (actor: PlacedUnit, snapshot: BoardSnapshot, requireClearLane: boolean): Position | undefined => {
+  for (const offset of sidestepOffsets(actor, false)) {
+    const tile = stepTo(actor, snapshot, offset);
+    if (!tile || getOccupant(snapshot, tile.row, tile.col)) continue;
+    if (requireClearLane && !isLaneClear(snapshot, tile.row, tile.col, directionForTeam(actor.team))) continue;
+    return tile;
+  }
+  return undefined;
+};
+
+/** Decides one unit's action for this turn from the given board; units with nothing to do idle with a reason */
+const planUnitAction = (actor: PlacedUnit, snapshot: BoardSnapshot, turnNumber: number): PendingAction => {
+  // Paralyzed units idle until the effect wears off, mud costs a turn, slow units rest between actions
+  if (isParalyzed(actor)) {
+    return { actor, type: 'paralyzed' };
+  }
+  if (isSlowed(actor)) {
+    return idle(actor, 'slowed');
+  }
+  if (!isReadyToAct(actor, turnNumber)) {
+    return idle(actor, 'resting');
+  }
+
+  const ruleAction = planStrategyAction(actor, snapshot);
+  if (ruleAction) {
+    return ruleAction;
+  }
+
+  const laneLogic = behaviorOf(actor, 'laneLogic');
+
+  if (laneLogic === 'runner') {
+    const sidestep = findSidestep(actor, snapshot, true);
+    if (sidestep) {
+      return { actor, type: 'move', newPosition: sidestep };
     }
+  }
 
-    // Check for archer forward attack first - but respect priority preference
-    if (actor.id === ARCHER_ID) {
-      const forwardTarget = findArcherForwardTarget(actor, snapshot);
-      const archerBehaviors = behaviors;
-      const prioritizeAdvancing = archerBehaviors.some(b => b.includes('Priority: Advancing'));
-      
-      // If prioritize advancing, only shoot if can't move forward
-      if (prioritizeAdvancing && forwardTarget) {
-        const direction = directionForTeam(actor.team);
-        const nextRow = actor.position.row + direction;
-        const canMoveForward = nextRow >= 0 && nextRow < BOARD_SIZE && !getOccupant(snapshot, nextRow, actor.position.col);
-        
-        if (canMoveForward) {
-          // Can move forward, so do that instead of shooting
-          actions.push({
-            actor,
-            type: 'move',
-            newPosition: { row: nextRow, col: actor.position.col }
-          });
-          continue;
-        }
-      }
-      
-      // Either prioritize shooting OR can't move forward
-      if (forwardTarget) {
-        actions.push({
-          actor,
-          type: 'attack',
-          targetUnit: forwardTarget,
-          targetPosition: { ...forwardTarget.position },
-          attackType: 'ranged'
-        });
-        continue;
-      }
+  if (actor.id === ZOMBIE_ID) {
+    return planZombieAction(actor, snapshot) ?? idle(actor, 'noPath');
+  }
+
+  if (actor.id === MAGE_ID && getStatusEffect(actor, 'sidestepPending')) {
+    const sidestep = findMageSidestep(actor, snapshot);
+    if (sidestep) {
+      return { actor, type: 'move', newPosition: sidestep };
     }
+  }
 
-    const direction = directionForTeam(actor.team);
-    const nextRow = actor.position.row + direction;
-    
-    // Check if can move forward
-    if (nextRow >= 0 && nextRow < BOARD_SIZE) {
-      const occupant = getOccupant(snapshot, nextRow, actor.position.col);
-      
-      if (!occupant) {
-        // Can move forward
-        actions.push({
-          actor,
-          type: 'move',
-          newPosition: { row: nextRow, col: actor.position.col }
-        });
-        continue;
-      }
-      
-      if (occupant.team !== actor.team) {
-        // Attack the enemy in front
-        actions.push({
-          actor,
-          type: 'attack',
-          targetUnit: occupant,
-          targetPosition: { ...occupant.position },
-          attackType: 'melee'
-        });
-        continue;
-      }
+  const forwardTile = canStep(actor, FORWARD_STEP) ? stepTo(actor, snapshot, FORWARD_STEP) : undefined;
+  const forwardOccupant = forwardTile ? getOccupant(snapshot, forwardTile.row, forwardTile.col) : undefined;
 
-      // Ally in front - check if ally will move forward, allowing this unit to follow
-      if (isOpportunistic) {
-        const sideDirs = [-1, 1];
-        let sidestepped = false;
-        for (const side of sideDirs) {
-          const sideCol = actor.position.col + side;
-          if (sideCol < 0 || sideCol >= BOARD_COLS) continue;
-          if (getOccupant(snapshot, actor.position.row, sideCol)) continue;
-          actions.push({
-            actor,
-            type: 'move',
-            newPosition: { row: actor.position.row, col: sideCol }
-          });
-          sidestepped = true;
-          break;
-        }
-        if (sidestepped) {
-          continue;
-        }
-      }
+  // Strike anything inside the attack pattern - unless the unit prefers advancing and the way is open
+  const reachTarget = findReachTarget(actor, snapshot);
+  const prioritizeAdvancing = behaviorOf(actor, 'priority') === 'advancing';
+  if (reachTarget && !(prioritizeAdvancing && forwardTile && !forwardOccupant)) {
+    return strikeAction(actor, reachTarget);
+  }
 
-      if (willAllyMoveForward(occupant, snapshot, new Set([actor.instanceId]))) {
-        actions.push({
-          actor,
-          type: 'move',
-          newPosition: { row: nextRow, col: actor.position.col }
-        });
-        continue;
-      }
-    }
+  if (!forwardTile) {
+    return idle(actor, 'noPath');
+  }
 
-    // If blocked by ally or edge, try to attack nearest enemy
-    const targetPref = actor.id === ARCHER_ID ? actor.selectedBehaviors?.find(b => b.includes('Target Preference:')) ?? '' : '';
-    const target = findClosestTarget(actor, snapshot, targetPref);
-    if (target) {
-      const distance = manhattan(actor.position, target.position);
-      const range = Math.max(1, actor.range);
-      if (distance <= range) {
-        // For melee attacks (range 1), only allow attacking enemies directly in front
-        // (same column), not to the sides
-        const isMeleeRange = range === 1;
-        const isDirectlyInFront = target.position.col === actor.position.col;
-        
-        if (isMeleeRange && !isDirectlyInFront) {
-          // Melee unit cannot attack sideways - skip this action
-          continue;
-        }
-        
-        actions.push({
-          actor,
-          type: 'attack',
-          targetUnit: target,
-          targetPosition: { ...target.position },
-          attackType: distance > 1 ? 'ranged' : 'melee'
-        });
-      }
+  if (!forwardOccupant) {
+    return { actor, type: 'move', newPosition: forwardTile };
+  }
+
+  if (forwardOccupant.team !== actor.team) {
+    // Enemy in front but outside the attack pattern: nothing to do
+    return idle(actor, 'enemyOutOfReach');
+  }
+
+  // Ally in front - sidestep to open a lane, or follow the ally if it is about to advance
+  if (laneLogic === 'opportunistic') {
+    const sidestep = findSidestep(actor, snapshot, false);
+    if (sidestep) {
+      return { actor, type: 'move', newPosition: sidestep };
     }
   }
 
-  return actions;
+  if (willAllyMoveForward(forwardOccupant, snapshot, turnNumber, new Set([actor.instanceId]))) {
+    return { actor, type: 'move', newPosition: forwardTile };
+  }
+  return idle(actor, 'allyAhead');
+};
+
+const collectTeamActions = (
+  team: Team,
+  snapshot: BoardSnapshot,
+  turnNumber: number
+): PendingAction[] =>
+  sortByResolutionOrder(snapshot.units.filter((unit) => unit.team === team && isAlive(unit)))
+    .map((actor) => planUnitAction(actor, snapshot, turnNumber));
+
+/**
+ * Applies the terrain of the tile a unit just stepped onto and returns the HP it lost.
+ * Only the unit that moves is affected; an ally it swaps with is shoved, not stepping in.
+ */
+const enterTerrain = (unit: PlacedUnit, snapshot: BoardSnapshot, tile: Position): number => {
+  const terrain = getTerrainAt(snapshot.map, tile.row, tile.col);
+  if (!terrain) {
+    return 0;
+  }
+  const { slowTurns, damage } = TERRAIN_RULES[terrain];
+  if (slowTurns > 0) {
+    applyStatusEffect(unit, { type: 'slowed', turnsRemaining: slowTurns });
+  }
+  const currentHp = unit.currentHp ?? unit.hp;
+  const hpLost = Math.min(currentHp, damage);
+  unit.currentHp = currentHp - hpLost;
+  return hpLost;
 };
 
-/** Apply all collected actions simultaneously */
+/** Apply all collected actions simultaneously, reporting one action record per acting unit in plan order */
 const applyActions = (
   actions: PendingAction[],
-  snapshot: PlacedUnit[],
+  snapshot: BoardSnapshot,
   recordMove: (key: string) => void,
-  recordHit: (attacker: PlacedUnit, target: PlacedUnit, attackType: 'melee' | 'ranged', didKill: boolean) => void
+  recordHit: (
+    attacker: PlacedUnit,
+    target: PlacedUnit,
+    attackType: 'melee' | 'ranged',
+    didKill: boolean,
+    resolution: AttackResolutionResult
+  ) => void,
+  recordStatus: (source: PlacedUnit, target: PlacedUnit, turns: number, refreshed: boolean) => void,
+  recordAction: (record: UnitActionRecord) => void
 ): void => {
+  const records = new Map<string, UnitActionRecord>();
+  const setRecord = (action: PendingAction, record: Omit<UnitActionRecord, 'unitId' | 'team' | 'from'>) => {
+    records.set(action.actor.instanceId, {
+      unitId: action.actor.instanceId,
+      team: action.actor.team,
+      from: { ...action.actor.position },
+      ...record,
+      ...(action.ruleId ? { ruleId: action.ruleId } : {})
+    });
+  };
+
   // Apply attacks one by one using deterministic resolution rules
   for (const action of actions) {
-    if (action.type === 'attack' && action.targetUnit && action.attackType) {
+    if (action.type === 'idle' || action.type === 'paralyzed') {
+      setRecord(action, { kind: action.type, reason: action.reason });
+      continue;
+    }
+
+    if ((action.type === 'attack' || action.type === 'paralyze') && action.targetUnit) {
       const targetUnit = action.targetUnit; // Type narrowing for TypeScript
-      const target = snapshot.find((unit) => unit.instanceId === targetUnit.instanceId);
+      const target = snapshot.units.find((unit) => unit.instanceId === targetUnit.instanceId);
       if (!target || !isAlive(target)) {
+        setRecord(action, {
+          kind: 'blocked',
+          planned: 'attack',
+          reason: 'targetDead',
+          to: { ...targetUnit.position },
+          targetId: targetUnit.instanceId
+        });
         continue;
       }
 
-      applyAttackToUnit(action.actor, target);
-      const didKill = !isAlive(target);
-      recordHit(action.actor, target, action.attackType, didKill);
+      setRecord(action, {
+        kind: 'attack',
+        to: { ...target.position },
+        targetId: target.instanceId,
+        attackType: action.type === 'paralyze' ? 'paralyze' : action.attackType
+      });
+
+      if (action.type === 'paralyze') {
+        const refreshed = applyStatusEffect(target, {
+          type: 'paralyzed',
+          turnsRemaining: PARALYSIS_TURNS,
+          sourceId: action.actor.instanceId
+        });
+        applyStatusEffect(action.actor, { type: 'sidestepPending', turnsRemaining: 1 });
+        recordStatus(action.actor, target, PARALYSIS_TURNS, refreshed);
+        continue;
+      }
+
+      if (action.attackType) {
+        const resolution = applyAttackToUnit(action.actor, target);
+        const didKill = !isAlive(target);
+        recordHit(action.actor, target, action.attackType, didKill, resolution);
+      }
     }
   }
 
-  // Apply all moves simultaneously
-  const moveActions = actions.filter((action) => action.type === 'move' && action.newPosition);
+  // Apply all moves simultaneously; swaps trade places with an ally that stays put
+  const moveActions = actions.filter((action) => (action.type === 'move' || action.type === 'swap') && action.newPosition);
   const moveActionsByActorId = new Map<string, PendingAction>();
   for (const action of moveActions) {
-    moveActionsByActorId.set(action.actor.instanceId, action);
+    if (action.type === 'move') {
+      moveActionsByActorId.set(action.actor.instanceId, action);
+    }
   }
   
   // Check for move collisions (two units moving to the same cell)
@@ -402,52 +814,196 @@ const applyActions = (
       const currentOccupant = getOccupant(snapshot, action.newPosition.row, action.newPosition.col);
       const occupantWillVacate = !!currentOccupant && moveActionsByActorId.has(currentOccupant.instanceId);
 
-      if (movesToCell.length === 1 && (!currentOccupant || occupantWillVacate)) {
+      if (action.type === 'swap') {
+        const partner = currentOccupant;
+        const partnerStayed = !!partner && partner.instanceId === action.targetUnit?.instanceId && !occupantWillVacate;
+        if (movesToCell.length > 1 || !partner || !partnerStayed) {
+          setRecord(action, { kind: 'blocked', planned: 'move', reason: 'collision', to: { ...action.newPosition } });
+          continue;
+        }
+        const terrainDamage = enterTerrain(action.actor, snapshot, action.newPosition);
+        setRecord(action, {
+          kind: 'move',
+          to: { ...action.newPosition },
+          targetId: partner.instanceId,
+          ...(terrainDamage ? { terrainDamage } : {})
+        });
+        recordMove(`${action.actor.position.row}-${action.actor.position.col}`);
+        partner.position = { ...action.actor.position };
+        action.actor.position = { ...action.newPosition };
+        recordMove(`${action.actor.position.row}-${action.actor.position.col}`);
+        continue;
+      }
+
+      if (movesToCell.length > 1) {
+        setRecord(action, { kind: 'blocked', planned: 'move', reason: 'collision', to: { ...action.newPosition } });
+      } else if (currentOccupant && !occupantWillVacate) {
+        setRecord(action, { kind: 'blocked', planned: 'move', reason: 'tileOccupied', to: { ...action.newPosition } });
+      } else {
+        const terrainDamage = enterTerrain(action.actor, snapshot, action.newPosition);
+        setRecord(action, { kind: 'move', to: { ...action.newPosition }, ...(terrainDamage ? { terrainDamage } : {}) });
         recordMove(`${action.actor.position.row}-${action.actor.position.col}`);
         action.actor.position = { ...action.newPosition };
         recordMove(`${action.actor.position.row}-${action.actor.position.col}`);
       }
     }
   }
+
+  for (const action of actions) {
+    const record = records.get(action.actor.instanceId);
+    if (record) {
+      recordAction(record);
+    }
+  }
+};
+
+interface BattleOutcome {
+  winner: Team | null;
+  endReason: BattleEndReason | null;
+}
+
+/** Every step a unit could ever take: its move pattern, plus the explicit orders its strategy rules may give */
+const possibleSteps = (unit: PlacedUnit): TileOffset[] => {
+  const { moves } = getUnitPattern(unit.id, unit.upgrades);
+  return unit.strategyRules?.length ? [...moves, FORWARD_STEP, ...RULE_SIDESTEPS, RULE_RETREAT_STEPS[0]] : moves;
 };
 
-const evaluateWinner = (units: PlacedUnit[]): Team | null => {
+/**
+ * Every tile the unit could ever stand on. Only terrain is a lasting obstacle - units move and die -
+ * so this searches the map from the unit's tile ignoring every other unit.
+ */
+const reachableTiles = (unit: PlacedUnit, snapshot: BoardSnapshot): Position[] => {
+  const steps = possibleSteps(unit);
+  const seen = new Set([`${unit.position.row}-${unit.position.col}`]);
+  const tiles: Position[] = [];
+  const frontier = [unit];
+  for (let current = frontier.pop(); current; current = frontier.pop()) {
+    tiles.push(current.position);
+    for (const step of steps) {
+      const tile = stepTo(current, snapshot, step);
+      if (!tile || seen.has(`${tile.row}-${tile.col}`)) continue;
+      seen.add(`${tile.row}-${tile.col}`);
+      frontier.push({ ...current, position: tile });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Whether the unit could ever strike an enemy: from a tile it can reach, its melee or ranged
+ * pattern covers a tile an enemy can reach, with a line of fire for ranged hits.
+ */
+const couldEverDealDamage = (unit: PlacedUnit, snapshot: BoardSnapshot, tiles: Position[], enemyTiles: Set<string>) => {
+  if (unit.damage <= 0) return false;
+  const { melee, ranged } = getUnitPattern(unit.id, unit.upgrades);
+  return tiles.some((position) => {
+    const placed = { ...unit, position };
+    const enemyTileAt = (offset: TileOffset): Position | undefined => {
+      const tile = tileAt(placed, snapshot, offset);
+      return tile && enemyTiles.has(`${tile.row}-${tile.col}`) ? tile : undefined;
+    };
+    return (
+      melee.some((offset) => enemyTileAt(offset) !== undefined) ||
+      ranged.some((offset) => {
+        const tile = enemyTileAt(offset);
+        return tile !== undefined && hasLineOfFire(snapshot, position, tile);
+      })
+    );
+  });
+};
+
+/**
+ * A team keeps a path to win while one of its units could still damage an enemy or reach the far row.
+ * Status effects wear off, so a paralyzed unit keeps its path.
+ */
+const hasPathToWin = (team: Team, snapshot: BoardSnapshot): boolean => {
+  const living = snapshot.units.filter(isAlive);
+  const enemyTiles = new Set(
+    living
+      .filter((unit) => unit.team !== team)
+      .flatMap((unit) => reachableTiles(unit, snapshot).map((tile) => `${tile.row}-${tile.col}`))
+  );
+  const targetRow = targetRowForTeam(team, snapshot.board);
+  return living.some((unit) => {
+    if (unit.team !== team) return false;
+    const tiles = reachableTiles(unit, snapshot);
+    return tiles.some((tile) => tile.row === targetRow) || couldEverDealDamage(unit, snapshot, tiles, enemyTiles);
+  });
+};
+
+const evaluateWinner = (snapshot: BoardSnapshot, quietTurns: number): BattleOutcome => {
+  const { units, board } = snapshot;
   const playerReached = units.some(
-    (unit) => unit.team === 'player' && isAlive(unit) && unit.position.row === targetRowForTeam('player')
+    (unit) => unit.team === 'player' && isAlive(unit) && unit.position.row === targetRowForTeam('player', board)
   );
   if (playerReached) {
-    return 'player';
+    return { winner: 'player', endReason: 'breach' };
   }
   const enemyReached = units.some(
-    (unit) => unit.team === 'enemy' && isAlive(unit) && unit.position.row === targetRowForTeam('enemy')
+    (unit) => unit.team === 'enemy' && isAlive(unit) && unit.position.row === targetRowForTeam('enemy', board)
   );
   if (enemyReached) {
-    return 'enemy';
+    return { winner: 'enemy', endReason: 'breach' };
+  }
+
+  const playerAlive = units.some((unit) => unit.team === 'player' && isAlive(unit));
+  const enemyAlive = units.some((unit) => unit.team === 'enemy' && isAlive(unit));
+  if (!playerAlive || !enemyAlive) {
+    const winner = playerAlive ? 'player' : enemyAlive ? 'enemy' : null;
+    return { winner, endReason: 'elimination' };
+  }
+
+  // GDD 3: a side with no remaining path to win loses; when neither has one, the quiet-board check below ends it
+  const playerHasPath = hasPathToWin('player', snapshot);
+  const enemyHasPath = hasPathToWin('enemy', snapshot);
+  if (playerHasPath !== enemyHasPath) {
+    return { winner: playerHasPath ? 'player' : 'enemy', endReason: 'noPathToWin' };
+  }
+
+  // Both teams passed a full round without changing the board - stretched to cover the slowest
+  // unit's resting cycle. Actions depend only on the board, status timers and that cycle, so with
+  // no timers left the same turns repeat forever.
+  const livingUnits = units.filter(isAlive);
+  const hasPendingEffects = livingUnits.some((unit) => (unit.statusEffects?.length ?? 0) > 0);
+  const slowestInterval = Math.max(1, ...livingUnits.map(getActionInterval));
+  if (quietTurns >= STALEMATE_QUIET_TURNS * slowestInterval && !hasPendingEffects) {
+    return { winner: null, endReason: 'stalemate' };
   }
 
-  return null;
+  return { winner: null, endReason: null };
 };
 
 /**
  * Advances the battle by one turn.
  * All units of the current team act simultaneously, then the turn passes to the other team.
+ * Units whose speed keeps them resting this turn idle (see isReadyToAct).
+ * Pass the previous tick's quietTurns so stalemates can be detected, the battle's
+ * resolution mode to switch to one-unit-at-a-time resolution, the battle's map for terrain, and
+ * the match ruleset for the board's dimensions.
  */
 export const advanceBattleTick = (
   units: PlacedUnit[],
   currentTeam: Team,
-  turnNumber: number
+  turnNumber: number,
+  quietTurns = 0,
+  resolutionMode: ResolutionMode = 'simultaneous',
+  map: BattleMap = OPEN_FIELD,
+  ruleset: Ruleset = CURRENT_RULESET
 ): BattleTickResult => {
-  const snapshot = cloneUnits(units);
+  const snapshot: BoardSnapshot = { units: cloneUnits(units), map, board: ruleset.board };
   const hits: string[] = [];
   const hitEvents: HitEvent[] = [];
+  const statusEvents: StatusEvent[] = [];
   const moves: string[] = [];
+  const actions: UnitActionRecord[] = [];
   let hitSequence = 0;
 
   const recordHitEvent = (
     attacker: PlacedUnit,
     target: PlacedUnit,
     attackType: 'melee' | 'ranged',
-    didKill: boolean
+    didKill: boolean,
+    resolution: AttackResolutionResult
   ) => {
     const cellKey = `${target.position.row}-${target.position.col}`;
     hits.push(cellKey);
@@ -460,44 +1016,86 @@ export const advanceBattleTick = (
       targetId: target.instanceId,
       targetPosition: { ...target.position },
       attackType,
-      didKill
+      didKill,
+      damageToHp: resolution.damageToHp,
+      damageToShield: resolution.damageToShield
     });
   };
 
-  // Collect and apply all actions for the current team simultaneously
-  const actions = collectTeamActions(currentTeam, snapshot);
-  applyActions(
-    actions,
-    snapshot,
-    (key) => moves.push(key),
-    recordHitEvent
-  );
+  const recordStatusEvent = (source: PlacedUnit, target: PlacedUnit, turns: number, refreshed: boolean) => {
+    statusEvents.push({
+      id: `turn${turnNumber}-${source.instanceId}-${target.instanceId}-paralyze`,
+      type: 'paralyze',
+      sourceId: source.instanceId,
+      sourceTeam: source.team,
+      sourcePosition: { ...source.position },
+      targetId: target.instanceId,
+      targetPosition: { ...target.position },
+      turns,
+      refreshed
+    });
+  };
+
+  const recordMove = (key: string) => moves.push(key);
+  const recordAction = (record: UnitActionRecord) => actions.push(record);
+
+  if (resolutionMode === 'sequential') {
+    // Each unit plans from the board the previous unit left behind and acts before the next one plans
+    const carriedOverEffects = new Set(snapshot.units.flatMap((unit) => unit.statusEffects ?? []));
+    const teamUnits = sortByResolutionOrder(snapshot.units.filter((unit) => unit.team === currentTeam && isAlive(unit)));
+    for (const actor of teamUnits) {
+      applyActions([planUnitAction(actor, snapshot, turnNumber)], snapshot, recordMove, recordHitEvent, recordStatusEvent, recordAction);
+    }
+    tickStatusEffects(snapshot.units, currentTeam, carriedOverEffects);
+  } else {
+    // Collect and apply all actions for the current team simultaneously
+    const plannedActions = collectTeamActions(currentTeam, snapshot, turnNumber);
+    // Effects count down on their owner's turn, after they shaped this turn's actions
+    tickStatusEffects(snapshot.units, currentTeam);
+    applyActions(plannedActions, snapshot, recordMove, recordHitEvent, recordStatusEvent, recordAction);
+  }
 
   // Check for winner after actions
-  const winner = evaluateWinner(snapshot);
+  const boardChanged = moves.length > 0 || hitEvents.length > 0 || statusEvents.length > 0;
+  const nextQuietTurns = boardChanged ? 0 : quietTurns + 1;
+  const { winner, endReason } = evaluateWinner(snapshot, nextQuietTurns);
 
   // Prepare for next turn (switch teams)
   const nextTeam = otherTeam(currentTeam);
   const nextTurnNumber = turnNumber + 1;
 
   return {
-    units: snapshot,
+    units: snapshot.units,
     hits,
     hitEvents,
+    statusEvents,
     moves,
+    actions,
     winner,
+    endReason,
+    quietTurns: nextQuietTurns,
     currentTeam: nextTeam,
     turnNumber: nextTurnNumber
   };
 };
 
-/** Creates the initial battle state with a lucky draw to determine starting team */
-export const initializeBattle = (units: PlacedUnit[]): BattleState => {
-  const startingTeam = luckyDraw();
+/**
+ * Creates the initial battle state. The starting team comes from options.startingTeam or a seeded
+ * lucky draw, so (units, seed) always reproduces the same battle.
+ */
+export const initializeBattle = (units: PlacedUnit[], options: BattleInitOptions = {}): BattleState => {
+  const seed = options.seed ?? createBattleSeed();
+  const ruleset = options.ruleset ?? CURRENT_RULESET;
+  const startingTeam = options.startingTeam ?? luckyDraw(seed);
   return {
-    units: cloneUnits(units),
+    // Canonical order keeps the timeline independent of how the armies were serialized
+    units: sortByResolutionOrder(cloneUnits(units)),
     currentTeam: startingTeam,
-    turnNumber: 1
+    turnNumber: 1,
+    seed,
+    resolutionMode: options.resolutionMode ?? ruleset.variants.resolutionMode,
+    map: options.map ?? OPEN_FIELD,
+    ruleset
   };
 };
 
@@ -506,6 +1104,89 @@ export const buildEnemyArmy = (template: Unit, formation: Position[]): PlacedUni
     ...template,
     team: 'enemy' as const,
     position: { ...position },
-    instanceId: `enemy-${index}-${Math.random().toString(36).slice(2)}`,
+    instanceId: `enemy-${template.id}-${index}`,
     currentHp: template.hp
   }));
+
+/**
+ * Builds the end-of-battle summary from a full timeline (frame 0 included), played under the given ruleset.
+ * A timeline whose last frame has no end reason was cut off by the tick limit.
+ */
+export const summarizeBattle = (
+  timeline: BattleTickResult[],
+  ruleset: Ruleset = CURRENT_RULESET
+): BattleSummary => {
+  const emptyStats = (): TeamBattleStats => ({ kills: 0, damageDealt: 0, damageAbsorbed: 0 });
+  const teams: Record<Team, TeamBattleStats> = { player: emptyStats(), enemy: emptyStats() };
+  const finalFrame = timeline[timeline.length - 1];
+
+  for (const frame of timeline) {
+    for (const event of frame.hitEvents) {
+      const attackerStats = teams[event.attackerTeam];
+      attackerStats.damageDealt += event.damageToHp;
+      teams[otherTeam(event.attackerTeam)].damageAbsorbed += event.damageToShield;
+      if (event.didKill) {
+        attackerStats.kills += 1;
+      }
+    }
+  }
+
+  const winner = finalFrame?.winner ?? null;
+  const reason: BattleOutcomeReason = finalFrame?.endReason ?? 'tickLimit';
+  const breachUnit = reason === 'breach' && winner
+    ? finalFrame.units.find(
+        (unit) => unit.team === winner && isAlive(unit) && unit.position.row === targetRowForTeam(winner, ruleset.board)
+      )
+    : undefined;
+
+  return {
+    winner,
+    reason,
+    breachUnitId: breachUnit?.instanceId ?? null,
+    // turnNumber on a frame is the turn that comes next; turn 1 is the first action
+    totalTurns: Math.max(0, (finalFrame?.turnNumber ?? 1) - 1),
+    teams
+  };
+};
+
+const XP_PER_KILL = 10;
+const XP_PER_DAMAGE = 1;
+const XP_FOR_SURVIVING = 5;
+
+/**
+ * Attributes experience to every unit that started the battle: kills and HP damage from the
+ * timeline's hit events, plus a bonus for being alive in the final frame.
+ */
+export const awardBattleXp = (timeline: BattleTickResult[]): UnitXpAward[] => {
+  const startingUnits = timeline[0]?.units ?? [];
+  const finalUnits = timeline[timeline.length - 1]?.units ?? [];
+  const awards = new Map<string, UnitXpAward>(
+    startingUnits.map((unit) => [
+      unit.instanceId,
+      { instanceId: unit.instanceId, team: unit.team, kills: 0, damageDealt: 0, survived: false, xp: 0 }
+    ])
+  );
+
+  for (const frame of timeline) {
+    for (const event of frame.hitEvents) {
+      const award = awards.get(event.attackerId);
+      if (!award) continue;
+      award.damageDealt += event.damageToHp;
+      if (event.didKill) {
+        award.kills += 1;
+      }
+    }
+  }
+
+  for (const unit of finalUnits) {
+    const award = awards.get(unit.instanceId);
+    if (award && isAlive(unit)) {
+      award.survived = true;
+    }
+  }
+
+  return [...awards.values()].map((award) => ({
+    ...award,
+    xp: award.kills * XP_PER_KILL + award.damageDealt * XP_PER_DAMAGE + (award.survived ? XP_FOR_SURVIVING : 0)
+  }));
+};
@@ -0,0 +1,89 @@
+import type { StrategyRule } from '../types';
+
+/** IF conditions understood by the rule interpreter, in the order the Strategy Editor lists them */
+export const STRATEGY_CONDITIONS = [
+  'HP below 40%',
+  'Enemy in range',
+  'Ally injured nearby',
+  'Path blocked',
+  'Enemy type: Giant'
+] as const;
+
+/** THEN actions understood by the rule interpreter, in the order the Strategy Editor lists them */
+export const STRATEGY_ACTIONS = [
+  'Move forward',
+  'Shift sideways',
+  'Retreat 2 tiles',
+  'Swap with ally',
+  'Hold position',
+  'Attack priority target'
+] as const;
+
+export type StrategyCondition = (typeof STRATEGY_CONDITIONS)[number];
+export type StrategyAction = (typeof STRATEGY_ACTIONS)[number];
+
+// Older saved books used shorter labels; a Map so that names like "constructor" never match
+const ACTION_ALIASES = new Map<string, StrategyAction>([['Attack priority', 'Attack priority target']]);
+
+/** Facts about a unit's surroundings, gathered by the engine from the board before the unit acts */
+export interface StrategyContext {
+  hpRatio: number;
+  enemyInRange: boolean;
+  allyInjuredNearby: boolean;
+  pathBlocked: boolean;
+  enemyTypesInRange: string[];
+}
+
+const CONDITION_CHECKS: Record<StrategyCondition, (context: StrategyContext) => boolean> = {
+  'HP below 40%': (context) => context.hpRatio < 0.4,
+  'Enemy in range': (context) => context.enemyInRange,
+  'Ally injured nearby': (context) => context.allyInjuredNearby,
+  'Path blocked': (context) => context.pathBlocked,
+  'Enemy type: Giant': (context) => context.enemyTypesInRange.includes('giant')
+};
+
+const isCondition = (value: unknown): value is StrategyCondition =>
+  typeof value === 'string' && (STRATEGY_CONDITIONS as readonly string[]).includes(value);
+
+const toAction = (value: unknown): StrategyAction | undefined => {
+  if (typeof value !== 'string') return undefined;
+  return (STRATEGY_ACTIONS as readonly string[]).includes(value) ? (value as StrategyAction) : ACTION_ALIASES.get(value);
+};
+
+export interface MatchedStrategyRule {
+  ruleId: string;
+  action: StrategyAction;
+}
+
+/**
+ * Walks a unit's strategy book in order and returns the first rule whose condition holds.
+ * Rules with an unknown condition or action are skipped, so stale books never break a battle.
+ */
+export const matchStrategyRule = (
+  rules: StrategyRule[] | undefined,
+  context: StrategyContext
+): MatchedStrategyRule | undefined => {
+  for (const rule of Array.isArray(rules) ? rules : []) {
+    const action = toAction(rule.action);
+    if (!action || !isCondition(rule.condition)) continue;
+    if (CONDITION_CHECKS[rule.condition](context)) {
+      return { ruleId: rule.id, action };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Rebuilds a strategy book received from a client: only rules with a known condition and action are
+ * kept, with aliases spelled out and nothing but the rule fields, so the engine never sees anything else.
+ */
+export const sanitizeStrategyRules = (rules: unknown, unitId: string): StrategyRule[] => {
+  if (!Array.isArray(rules)) return [];
+  return rules.flatMap((rule: unknown) => {
+    if (typeof rule !== 'object' || rule === null) return [];
+    const { id, condition, action } = rule as Record<string, unknown>;
+    const knownAction = toAction(action);
+    if (typeof id !== 'string' || !isCondition(condition) || !knownAction) return [];
+    return [{ id, unitId, condition, action: knownAction }];
+  });
+};
@@ -1,44 +1,95 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type { PlacedUnit } from '../types';
-import type { BattleTickResult } from '../engine/battleEngine';
+import type { BattleSummary, BattleTickResult, UnitXpAward } from '../engine/battleEngine';
 import { buildWsUrl } from '../config/api';
 import { useAuth } from '../context/AuthContext';
-import { applyBattleRewards } from '../utils/credits';
+import type { BattleMap } from '../../shared/battleMaps';
+import type { Ruleset } from '../../shared/ruleset';
+import type { PlacementDisplacement } from '../../shared/deployment';
+import type { ArmyAdjustment, MindGameSide } from '../../shared/mindGame';
+import type { MatchFormat, MatchWinner, SeriesScore } from '../../shared/series';
+import type { ArmyValidationError } from '../../shared/armyValidation';
+import type { CreditReason } from '../../shared/rewards';
 
 // Types duplicated from server - will be unified later
 export type ArmyConfig = PlacedUnit[];
 export type BattleType = 'demo' | 'pvp';
 
 type ClientToServer =
-  | { type: 'hello'; name: string }
+  | { type: 'hello'; accessToken: string }
   | { type: 'set_army'; army: ArmyConfig }
-  | { type: 'challenge'; opponentName: string }
-  | { type: 'challenge_response'; challengerName: string; accepted: boolean }
-  | { type: 'demo_battle'; army: ArmyConfig };
+  | { type: 'challenge'; opponentId: string; format?: MatchFormat }
+  | { type: 'challenge_response'; challengerId: string; accepted: boolean }
+  | { type: 'demo_battle'; army: ArmyConfig }
+  | { type: 'submit_adjustment'; matchId: string; adjustment: ArmyAdjustment }
+  | { type: 'submit_series_army'; seriesId: string; army: ArmyConfig };
 
 export type MatchRole = 'A' | 'B';
 
+// The server closes an older connection with this code when the same account signs in again
+const SESSION_REPLACED_CLOSE_CODE = 4001;
+
+/** A signed-in player as the server knows them */
+export interface OnlinePlayer {
+  /** Stable account id; challenges are addressed by it */
+  playerId: string;
+  name: string;
+}
+
 type ServerToClient =
-  | { type: 'hello_ack'; userId: string }
-  | { type: 'presence'; users: string[] }
+  | { type: 'hello_ack'; userId: string; ruleset?: Ruleset }
+  | { type: 'presence'; users: OnlinePlayer[] }
   | { type: 'error'; message: string }
-  | { type: 'challenge_received'; from: string }
+  | { type: 'army_rejected'; context: 'set_army' | 'demo_battle' | 'submit_series_army'; errors: ArmyValidationError[] }
+  | { type: 'challenge_received'; from: OnlinePlayer; format?: MatchFormat }
   | { type: 'challenge_result'; success: boolean; message?: string }
+  | {
+      type: 'board_reveal';
+      matchId: string;
+      step: MindGameSide;
+      yourTurn: boolean;
+      yourArmy: ArmyConfig;
+      opponentArmy: ArmyConfig;
+      timeoutMs: number;
+    }
   | {
       type: 'battle_start';
       matchId: string;
       youAre: 'A' | 'B';
       opponentName: string;
+      rulesetVersion?: string;
+      seriesId?: string;
     }
+  | {
+      type: 'series_update';
+      seriesId: string;
+      results: MatchWinner[];
+      score: SeriesScore;
+      winner: MatchWinner | null;
+      nextMatch: number | null;
+      adjustmentLimit: number;
+      yourArmy: ArmyConfig;
+      timeoutMs: number;
+    }
+  | { type: 'series_army_accepted'; seriesId: string; adjustments: number }
+  | { type: 'credits_awarded'; matchId: string; amount: number; reason: CreditReason; balance: number }
   | {
       type: 'battle_result';
       matchId: string;
       winner: 'A' | 'B' | 'draw';
+      seed?: number;
+      rulesetVersion?: string;
       battleType?: BattleType;
       timeline?: BattleTickResult[];
+      summary?: BattleSummary;
+      map?: BattleMap;
+      ruleset?: Ruleset;
+      displacements?: PlacementDisplacement[];
+      xpAwards?: UnitXpAward[];
     };
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+/** 'signed-out': no account or access token, so the hook does not try to connect */
+export type ConnectionStatus = 'signed-out' | 'disconnected' | 'connecting' | 'connected';
 
 export interface BattleResult {
   matchId: string;
@@ -46,19 +97,65 @@ export interface BattleResult {
   battleType?: BattleType;
   role?: MatchRole | null;
   timeline?: BattleTickResult[];
+  summary?: BattleSummary;
+  map?: BattleMap;
+  ruleset?: Ruleset;
+  displacements?: PlacementDisplacement[];
+  xpAwards?: UnitXpAward[];
+}
+
+/** Both boards as revealed before a PvP battle, while the mind game waits on one side's edit */
+export interface MindGameReveal {
+  matchId: string;
+  step: MindGameSide;
+  yourTurn: boolean;
+  yourArmy: ArmyConfig;
+  /** Already at the far end of the board, on the enemy team */
+  opponentArmy: ArmyConfig;
+  /** Local time (ms) when the step counts as a pass */
+  deadline: number;
 }
 
-export function useGameServer(username: string | null) {
-  const { user } = useAuth();
+/** A best-of-3 series in progress or just finished, as last reported by the server */
+export interface SeriesView {
+  seriesId: string;
+  results: MatchWinner[];
+  score: SeriesScore;
+  winner: MatchWinner | null;
+  nextMatch: number | null;
+  adjustmentLimit: number;
+  /** Army the last match was fought with; adjustments are counted against it */
+  previousArmy: ArmyConfig;
+  /** Local time (ms) when the last army is kept for the next match */
+  deadline: number | null;
+  /** Adjustments in the army the server accepted for the next match, once one is locked in */
+  lockedAdjustments: number | null;
+}
+
+export function useGameServer() {
+  const { user, session } = useAuth();
+  const playerId = user?.id ?? null;
+  const hasAccessToken = Boolean(session?.access_token);
+  // Read at connect time, so a refreshed token is used on the next reconnect without dropping the socket
+  const accessTokenRef = useRef<string | null>(null);
+  useEffect(() => {
+    accessTokenRef.current = session?.access_token ?? null;
+  }, [session]);
   const wsRef = useRef<WebSocket | null>(null);
-  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
-  const [users, setUsers] = useState<string[]>([]);
-  const [incomingChallenge, setIncomingChallenge] = useState<string | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus>('signed-out');
+  const [users, setUsers] = useState<OnlinePlayer[]>([]);
+  const [incomingChallenge, setIncomingChallenge] = useState<OnlinePlayer | null>(null);
+  const [incomingChallengeFormat, setIncomingChallengeFormat] = useState<MatchFormat>('single');
   const [lastResult, setLastResult] = useState<BattleResult | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  // Ruleset of the connected server; armies are planned on its board
+  const [ruleset, setRuleset] = useState<Ruleset | null>(null);
   const [currentMatchId, setCurrentMatchId] = useState<string | null>(null);
   const [currentRole, setCurrentRole] = useState<MatchRole | null>(null);
-  const rewardedMatchesRef = useRef<Set<string>>(new Set());
+  const [mindGame, setMindGame] = useState<MindGameReveal | null>(null);
+  const [series, setSeries] = useState<SeriesView | null>(null);
+  // Why the server refused the army last sent; cleared whenever another army is sent
+  const [armyErrors, setArmyErrors] = useState<ArmyValidationError[]>([]);
 
   // Send message helper
   const sendMessage = useCallback((message: ClientToServer) => {
@@ -72,21 +169,22 @@ export function useGameServer(username: string | null) {
   // API functions
   const setArmy = useCallback(
     (armyConfig: ArmyConfig) => {
+      setArmyErrors([]);
       sendMessage({ type: 'set_army', army: armyConfig });
     },
     [sendMessage]
   );
 
   const challenge = useCallback(
-    (opponentName: string) => {
-      sendMessage({ type: 'challenge', opponentName });
+    (opponentId: string, format: MatchFormat = 'single') => {
+      sendMessage({ type: 'challenge', opponentId, format });
     },
     [sendMessage]
   );
 
   const respondToChallenge = useCallback(
-    (challengerName: string, accepted: boolean) => {
-      sendMessage({ type: 'challenge_response', challengerName, accepted });
+    (challengerId: string, accepted: boolean) => {
+      sendMessage({ type: 'challenge_response', challengerId, accepted });
       // Clear incoming challenge after responding
       setIncomingChallenge(null);
     },
@@ -95,25 +193,45 @@ export function useGameServer(username: string | null) {
 
   const startDemoBattle = useCallback(
     (armyConfig: ArmyConfig) => {
+      setArmyErrors([]);
       sendMessage({ type: 'demo_battle', army: armyConfig });
     },
     [sendMessage]
   );
 
+  const submitAdjustment = useCallback(
+    (matchId: string, adjustment: ArmyAdjustment) => {
+      sendMessage({ type: 'submit_adjustment', matchId, adjustment });
+    },
+    [sendMessage]
+  );
+
+  const submitSeriesArmy = useCallback(
+    (seriesId: string, army: ArmyConfig) => {
+      setArmyErrors([]);
+      sendMessage({ type: 'submit_series_army', seriesId, army });
+    },
+    [sendMessage]
+  );
+
+  const dismissSeries = useCallback(() => setSeries(null), []);
+
   // WebSocket connection effect with auto-reconnect
   useEffect(() => {
-    if (!username) {
-      // No username, stay disconnected
+    if (!playerId || !hasAccessToken) {
+      // Not signed in: the server would refuse the connection, so none is opened
       if (wsRef.current) {
         wsRef.current.close();
         wsRef.current = null;
       }
-      setStatus('disconnected');
+      setStatus('signed-out');
       setUsers([]);
       setIncomingChallenge(null);
       setUserId(null);
       setCurrentMatchId(null);
       setCurrentRole(null);
+      setMindGame(null);
+      setSeries(null);
       return;
     }
 
@@ -146,7 +264,16 @@ export function useGameServer(username: string | null) {
       ws.onopen = () => {
         console.log('WebSocket connected');
         reconnectAttempts = 0; // Reset on successful connection
-        ws.send(JSON.stringify({ type: 'hello', name: username }));
+        const accessToken = accessTokenRef.current;
+        if (!accessToken) {
+          // Signed out while connecting; reconnecting could not help, signing in again reconnects
+          wsRef.current = null;
+          setStatus('signed-out');
+          ws.close();
+          return;
+        }
+        const hello: ClientToServer = { type: 'hello', accessToken };
+        ws.send(JSON.stringify(hello));
       };
 
       ws.onmessage = (event) => {
@@ -157,6 +284,7 @@ export function useGameServer(username: string | null) {
           switch (message.type) {
             case 'hello_ack':
               setUserId(message.userId);
+              setRuleset(message.ruleset ?? null);
               setStatus('connected');
               console.log('Authenticated with userId:', message.userId);
               break;
@@ -171,9 +299,15 @@ export function useGameServer(username: string | null) {
               alert(`Server error: ${message.message}`);
               break;
 
+            case 'army_rejected':
+              console.error(`Army rejected (${message.context}):`, message.errors);
+              setArmyErrors(message.errors);
+              break;
+
             case 'challenge_received':
               setIncomingChallenge(message.from);
-              console.log('Challenge received from:', message.from);
+              setIncomingChallengeFormat(message.format ?? 'single');
+              console.log('Challenge received from:', message.from.name);
               break;
 
             case 'challenge_result':
@@ -195,21 +329,50 @@ export function useGameServer(username: string | null) {
               );
               break;
 
+            case 'board_reveal':
+              // The server's clock may differ from ours, so only the remaining time is trusted
+              setMindGame({
+                matchId: message.matchId,
+                step: message.step,
+                yourTurn: message.yourTurn,
+                yourArmy: message.yourArmy,
+                opponentArmy: message.opponentArmy,
+                deadline: Date.now() + message.timeoutMs,
+              });
+              break;
+
+            case 'series_update':
+              setSeries({
+                seriesId: message.seriesId,
+                results: message.results,
+                score: message.score,
+                winner: message.winner,
+                nextMatch: message.nextMatch,
+                adjustmentLimit: message.adjustmentLimit,
+                previousArmy: message.yourArmy,
+                deadline: message.nextMatch ? Date.now() + message.timeoutMs : null,
+                lockedAdjustments: null,
+              });
+              break;
+
+            case 'series_army_accepted':
+              setSeries((prev) =>
+                prev && prev.seriesId === message.seriesId ? { ...prev, lockedAdjustments: message.adjustments } : prev
+              );
+              break;
+
             case 'battle_result':
               console.log('Battle result:', message);
+              setMindGame(null);
               setCurrentMatchId(message.matchId);
               setLastResult({ ...message, battleType: message.battleType ?? 'pvp', role: currentRole });
 
-              if (user?.id && currentRole && message.winner === currentRole) {
-                const battleType = message.battleType ?? 'pvp';
-                const alreadyRewarded = rewardedMatchesRef.current.has(message.matchId);
-                if (battleType !== 'demo' && !alreadyRewarded) {
-                  rewardedMatchesRef.current.add(message.matchId);
-                  applyBattleRewards(user.id, { ...message, battleType, role: currentRole }).catch((error) => {
-                    console.error('Failed to apply battle rewards', error);
-                  });
-                }
-              }
+              // The server grants xpAwards to player_army_units itself; the client only shows them
+              break;
+
+            case 'credits_awarded':
+              // The server has already updated players.current_credits; usePlayer picks it up from there
+              console.log(`Earned ${message.amount} credits for match ${message.matchId} (${message.reason})`);
               break;
 
             default:
@@ -226,6 +389,12 @@ export function useGameServer(username: string | null) {
 
       ws.onclose = (event) => {
         console.log('WebSocket disconnected', event.code, event.reason);
+        if (!accessTokenRef.current) {
+          setStatus('signed-out');
+          setUsers([]);
+          setUserId(null);
+          return;
+        }
         setStatus('disconnected');
         setUsers([]);
         setUserId(null);
@@ -234,6 +403,12 @@ export function useGameServer(username: string | null) {
         // setCurrentMatchId(null);
         // setCurrentRole(null);
 
+        if (event.code === SESSION_REPLACED_CLOSE_CODE && wsRef.current === ws) {
+          // Reconnecting would only take the session back from the newer tab or device
+          wsRef.current = null;
+          return;
+        }
+
         // Attempt to reconnect unless the component is being destroyed
         if (!destroyed && wsRef.current === ws) {
           wsRef.current = null;
@@ -261,19 +436,27 @@ export function useGameServer(username: string | null) {
         }
       }
     };
-  }, [username]);
+  }, [playerId, hasAccessToken]);
 
   return useMemo(
     () => ({
       status,
       users,
       incomingChallenge,
+      incomingChallengeFormat,
       lastResult,
       userId,
+      ruleset,
       setArmy,
       challenge,
       respondToChallenge,
       startDemoBattle,
+      mindGame,
+      submitAdjustment,
+      series,
+      submitSeriesArmy,
+      dismissSeries,
+      armyErrors,
       currentMatchId,
       currentRole,
     }),
@@ -281,12 +464,20 @@ export function useGameServer(username: string | null) {
       status,
       users,
       incomingChallenge,
+      incomingChallengeFormat,
       lastResult,
       userId,
+      ruleset,
       setArmy,
       challenge,
       respondToChallenge,
       startDemoBattle,
+      mindGame,
+      submitAdjustment,
+      series,
+      submitSeriesArmy,
+      dismissSeries,
+      armyErrors,
       currentMatchId,
       currentRole,
     ]
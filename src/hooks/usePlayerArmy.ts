@@ -1,12 +1,15 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../context/AuthContext';
-import { calculateArmyCost, getUnitCost } from '../utils/credits';
+import { calculateArmyCost } from '../../shared/credits';
+import { getOwnedUpgrades, type UnitUpgradeId } from '../../shared/gddUnits';
 
 export type PlayerArmyUnit = {
   id: string;
   slotIndex: number;
   unitTypeId: string;
+  upgrades: UnitUpgradeId[];
+  xp: number;
 };
 
 export type UsePlayerArmyResult = {
@@ -15,17 +18,12 @@ export type UsePlayerArmyResult = {
   armyId: string | null;
   units: PlayerArmyUnit[];
   totalCreditCost: number;
-  addUnit: (unitTypeId: string) => Promise<void>;
   removeUnit: (unitInstanceId: string) => Promise<void>;
   clearArmy: () => Promise<void>;
   refreshArmy: () => void;
 };
 
-type UsePlayerArmyOptions = {
-  availableCredits?: number | null;
-};
-
-export function usePlayerArmy(options: UsePlayerArmyOptions = {}): UsePlayerArmyResult {
+export function usePlayerArmy(): UsePlayerArmyResult {
   const { user } = useAuth();
   const [armyId, setArmyId] = useState<string | null>(null);
   const [units, setUnits] = useState<PlayerArmyUnit[]>([]);
@@ -33,7 +31,6 @@ export function usePlayerArmy(options: UsePlayerArmyOptions = {}): UsePlayerArmy
   const [error, setError] = useState<string | null>(null);
   const [refreshIndex, setRefreshIndex] = useState(0);
 
-  const usedSlots = useMemo(() => new Set(units.map((u) => u.slotIndex)), [units]);
   const totalCreditCost = useMemo(() => calculateArmyCost(units), [units]);
 
   useEffect(() => {
@@ -94,7 +91,7 @@ export function usePlayerArmy(options: UsePlayerArmyOptions = {}): UsePlayerArmy
 
       const { data: unitRows, error: unitsError } = await supabase
         .from('player_army_units')
-        .select('id, unit_type_id, row, col')
+        .select('id, unit_type_id, row, col, upgrades, xp')
         .eq('player_army_id', nextArmyId)
         .order('row', { ascending: true })
         .order('col', { ascending: true });
@@ -111,7 +108,9 @@ export function usePlayerArmy(options: UsePlayerArmyOptions = {}): UsePlayerArmy
       const mappedUnits = (unitRows ?? []).map((row) => ({
         id: row.id,
         slotIndex: row.col,
-        unitTypeId: row.unit_type_id
+        unitTypeId: row.unit_type_id,
+        upgrades: getOwnedUpgrades(row.unit_type_id.toLowerCase(), row.upgrades),
+        xp: row.xp ?? 0
       }));
 
       setArmyId(nextArmyId);
@@ -126,91 +125,6 @@ export function usePlayerArmy(options: UsePlayerArmyOptions = {}): UsePlayerArmy
     };
   }, [user, refreshIndex]);
 
-  const addUnit = async (unitTypeId: string) => {
-    if (!armyId || !user) return;
-    if (units.length >= 20) return;
-
-    let slotIndex = 0;
-    while (usedSlots.has(slotIndex) && slotIndex < 20) slotIndex += 1;
-    if (slotIndex >= 20) return;
-
-    const unitCost = getUnitCost(unitTypeId);
-    const creditBudget = options.availableCredits;
-
-    // Early client-side guard using the latest known credits
-    if (typeof creditBudget === 'number' && unitCost > creditBudget) {
-      setError('Not enough credits for this unit');
-      return;
-    }
-
-    // Server-side guarded deduction: ensure the wallet has enough before charging
-    const { data: playerRow, error: fetchCreditsError } = await supabase
-      .from('players')
-      .select('current_credits')
-      .eq('id', user.id)
-      .single();
-
-    if (fetchCreditsError) {
-      setError(fetchCreditsError.message);
-      return;
-    }
-
-    const currentCredits = playerRow?.current_credits ?? 0;
-    if (currentCredits < unitCost) {
-      setError('Not enough credits for this unit');
-      return;
-    }
-
-    const nextCredits = currentCredits - unitCost;
-    const { data: debitRows, error: updateCreditsError } = await supabase
-      .from('players')
-      .update({ current_credits: nextCredits })
-      .eq('id', user.id)
-      .gte('current_credits', unitCost)
-      .select('current_credits')
-      .maybeSingle();
-
-    if (updateCreditsError || !debitRows) {
-      setError(updateCreditsError?.message ?? 'Not enough credits for this unit');
-      return;
-    }
-
-    const { data, error: insertError } = await supabase
-      .from('player_army_units')
-      .insert({
-        player_army_id: armyId,
-        unit_type_id: unitTypeId,
-        row: 0,
-        col: slotIndex,
-        behavior_config: null
-      })
-      .select('id, unit_type_id, row, col')
-      .single();
-
-    if (insertError || !data) {
-      // Refund credits if the insert fails
-      await supabase
-        .from('players')
-        .update({ current_credits: currentCredits })
-        .eq('id', user.id);
-
-      setError(insertError?.message ?? 'Failed to add unit');
-      return;
-    }
-
-    // Clear any previous errors on success
-    setError(null);
-
-    setUnits((prev) => [
-      ...prev,
-      {
-        id: data.id,
-        slotIndex: data.col,
-        unitTypeId: data.unit_type_id
-      }
-    ]);
-  };
-
   const removeUnit = async (unitInstanceId: string) => {
     const { error: deleteError } = await supabase
       .from('player_army_units')
@@ -245,5 +159,5 @@ export function usePlayerArmy(options: UsePlayerArmyOptions = {}): UsePlayerArmy
     setRefreshIndex((index) => index + 1);
   }, []);
 
-  return { loading, error, armyId, units, totalCreditCost, addUnit, removeUnit, clearArmy, refreshArmy };
+  return { loading, error, armyId, units, totalCreditCost, removeUnit, clearArmy, refreshArmy };
 }
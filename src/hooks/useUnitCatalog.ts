@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import type { Unit } from '../types';
 import { buildGddUnit, GDD_UNIT_IDS } from '../../shared/gddUnits';
+import { CURRENT_RULESET } from '../../shared/ruleset';
 
 export type UnitCatalogEntry = Unit & {
   description?: string | null;
@@ -103,7 +104,7 @@ export const useUnitCatalog = () => {
             )
           `
         )
-        .eq('rules_version', 'v1.0.0');
+        .eq('rules_version', CURRENT_RULESET.unitsVersion);
 
       if (!isMounted) return;
 
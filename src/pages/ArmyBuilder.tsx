@@ -7,126 +7,53 @@ import './ArmyBuilder.css';
 import UnitPreviewCanvas from '../components/UnitPreviewCanvas';
 import { useUnitCatalog } from '../hooks/useUnitCatalog';
 import { usePlayerArmy } from '../hooks/usePlayerArmy';
-import { calculateArmyCost } from '../utils/credits';
-import { supabase } from '../lib/supabaseClient';
+import { calculateArmyCost } from '../../shared/credits';
+import { saveArmyChanges } from '../utils/armyChanges';
 import { applyOptimisticWallet, type WalletSyncHandle } from '../utils/walletSync';
+import {
+  DEFAULT_UNIT_PATTERN,
+  getUnitLevel,
+  getUnitPattern,
+  getUpgradeCost,
+  getUpgradeOptions,
+  getXpToNextLevel,
+  isUnitUpgradeId,
+  UNIT_UPGRADES,
+  type TileOffset,
+  type UnitUpgradeId
+} from '../../shared/gddUnits';
+import { getActionInterval } from '../engine/battleEngine';
 
 const maxUnits = 20;
 
-type BoardVector = { row: number; col: number };
-type MovementBlueprint = {
-  moves: BoardVector[];
-  attacks: BoardVector[];
-  description: {
-    movement: string;
-    attack: string;
-  };
-};
-
 const BOARD_ROWS = 5;
 const BOARD_COLS = 5;
 const BOARD_ORIGIN = { row: BOARD_ROWS - 1, col: Math.floor(BOARD_COLS / 2) };
 
-const MOVEMENT_BLUEPRINTS: Record<string, MovementBlueprint> = {
-  default: {
-    moves: [{ row: -1, col: 0 }],
-    attacks: [{ row: -1, col: 0 }],
-    description: {
-      movement: 'Steps forward to pressure the frontline.',
-      attack: 'Strikes the closest foe straight ahead.'
-    }
-  },
-  knight: {
-    moves: [{ row: -1, col: 0 }],
-    attacks: [{ row: -1, col: 0 }],
-    description: {
-      movement: 'Knights advance one tile to engage quickly.',
-      attack: 'Blade reaches the immediate tile in front.'
-    }
-  },
-  beast: {
-    moves: [
-      { row: -1, col: 0 },
-      { row: -1, col: -1 },
-      { row: -1, col: 1 }
-    ],
-    attacks: [{ row: -1, col: 0 }],
-    description: {
-      movement: 'Beasts lumber forward and can lean into flanks.',
-      attack: 'Crushing blow lands on the path directly ahead.'
-    }
-  },
-  mage: {
-    moves: [{ row: -1, col: 0 }],
-    attacks: [
-      { row: -1, col: 0 },
-      { row: -1, col: -1 },
-      { row: -1, col: 1 }
-    ],
-    description: {
-      movement: 'Mages advance cautiously while keeping distance.',
-      attack: 'Casts a short arc of spells in front.'
-    }
-  },
-  giant: {
-    moves: [
-      { row: -1, col: 0 },
-      { row: -1, col: -1 },
-      { row: -1, col: 1 }
-    ],
-    attacks: [{ row: -1, col: 0 }],
-    description: {
-      movement: 'Giants stride forward and threaten nearby tiles.',
-      attack: 'Massive swings crush foes directly ahead.'
-    }
-  },
-  zombie: {
-    moves: [{ row: -1, col: 0 }],
-    attacks: [{ row: -1, col: 0 }],
-    description: {
-      movement: 'Shambling advance with relentless pace.',
-      attack: 'Claws at the nearest enemy in reach.'
-    }
-  },
-  recruit: {
-    moves: [{ row: -1, col: 0 }],
-    attacks: [{ row: -1, col: 0 }],
-    description: {
-      movement: 'New recruits step forward to hold the line.',
-      attack: 'Strikes the closest foe straight ahead.'
-    }
-  },
-  archer: {
-    moves: [{ row: -1, col: 0 }],
-    attacks: [
-      { row: -1, col: 0 },
-      { row: -2, col: 0 },
-      { row: -3, col: 0 },
-      { row: -4, col: 0 }
-    ],
-    description: {
-      movement: 'Archers step forward to secure a firing lane.',
-      attack: 'Arrows arc across every tile in front within range.'
-    }
-  }
+const formatActionInterval = (interval: number) => (interval === 1 ? 'Every turn' : `Every ${interval} turns`);
+
+const formatXpProgress = (xp: number) => {
+  const toNext = getXpToNextLevel(xp);
+  return toNext === null ? `${xp} XP (max level)` : `${xp} XP, ${toNext} to next level`;
 };
 
 const createTempUnitId = () => `temp-${Math.random().toString(36).slice(2, 10)}-${Date.now()}`;
 
-const translateVectors = (vectors: BoardVector[]) =>
-  vectors
-    .map((vec) => ({
-      row: BOARD_ORIGIN.row + vec.row,
-      col: BOARD_ORIGIN.col + vec.col
+// Pattern offsets are relative to the unit's direction of travel; forward is up on the preview
+const translateOffsets = (offsets: TileOffset[]) =>
+  offsets
+    .map((offset) => ({
+      row: BOARD_ORIGIN.row - offset.forward,
+      col: BOARD_ORIGIN.col + offset.lateral
     }))
     .filter((pos) => pos.row >= 0 && pos.row < BOARD_ROWS && pos.col >= 0 && pos.col < BOARD_COLS);
 
 const boardKey = (pos: { row: number; col: number }) => `${pos.row}-${pos.col}`;
 
 const MiniBoard = ({ unit }: { unit: Unit | null }) => {
-  const blueprint = unit ? MOVEMENT_BLUEPRINTS[unit.id] ?? MOVEMENT_BLUEPRINTS.default : MOVEMENT_BLUEPRINTS.default;
-  const movePositions = translateVectors(blueprint.moves);
-  const attackPositions = translateVectors(blueprint.attacks);
+  const pattern = unit ? getUnitPattern(unit.id) : DEFAULT_UNIT_PATTERN;
+  const movePositions = translateOffsets(pattern.moves);
+  const attackPositions = translateOffsets([...pattern.melee, ...pattern.ranged]);
   const originKey = boardKey(BOARD_ORIGIN);
   const moveKeys = new Set(movePositions.map(boardKey));
   const attackKeys = new Set(attackPositions.map(boardKey));
@@ -174,8 +101,8 @@ const MiniBoard = ({ unit }: { unit: Unit | null }) => {
         </span>
       </div>
       <div className="mini-board__note">
-        <p>{blueprint.description.movement}</p>
-        <p>{blueprint.description.attack}</p>
+        <p>{pattern.notes.movement}</p>
+        <p>{pattern.notes.attack}</p>
       </div>
     </>
   );
@@ -233,7 +160,7 @@ const TplToast = ({ toast, onDismiss }: { toast: ToastMessage | null; onDismiss:
 };
 
 const ArmyBuilder = () => {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { player, loading: playerLoading, refresh: refreshPlayer, setPlayerCredits } = usePlayerContext();
   const { units: catalogUnits, loading: unitsLoading, error: unitsError } = useUnitCatalog();
   const {
@@ -295,7 +222,9 @@ const ArmyBuilder = () => {
           return {
             ...meta,
             instanceId: armyUnit.id,
-            slotIndex: armyUnit.slotIndex
+            slotIndex: armyUnit.slotIndex,
+            upgrades: armyUnit.upgrades,
+            xp: armyUnit.xp
           } as ArmyUnitInstance & { slotIndex: number };
         })
         .filter(Boolean) as (ArmyUnitInstance & { slotIndex: number })[],
@@ -342,6 +271,13 @@ const ArmyBuilder = () => {
         suffix: '',
         icon: '⚔️'
       },
+      {
+        id: 'speed',
+        label: 'Speed',
+        value: activeUnit ? formatActionInterval(getActionInterval(activeUnit)) : '—',
+        suffix: '',
+        icon: '⏱️'
+      },
       {
         id: 'creditCost',
         label: 'Cost',
@@ -372,7 +308,23 @@ const ArmyBuilder = () => {
     () => armyUnits.filter((unit) => !draftUnits.some((draft) => draft.id === unit.id)),
     [draftUnits, armyUnits]
   );
-  const creditsToSpend = useMemo(() => calculateArmyCost(pendingAdditions), [pendingAdditions]);
+  // Upgrades bought this session for units that are already saved; saved upgrades are permanent
+  const pendingUpgrades = useMemo(
+    () =>
+      draftUnits.flatMap((unit) => {
+        const base = armyUnits.find((saved) => saved.id === unit.id);
+        if (!base) return [];
+        const added = unit.upgrades.filter((upgradeId) => !base.upgrades.includes(upgradeId));
+        return added.length ? [{ ...unit, added }] : [];
+      }),
+    [draftUnits, armyUnits]
+  );
+  const creditsToSpend = useMemo(
+    () =>
+      calculateArmyCost(pendingAdditions) +
+      pendingUpgrades.reduce((total, unit) => total + getUpgradeCost(unit.unitTypeId.toLowerCase(), unit.added), 0),
+    [pendingAdditions, pendingUpgrades]
+  );
   const creditsToRefund = useMemo(() => calculateArmyCost(pendingRemovals), [pendingRemovals]);
   const netCreditChange = creditsToSpend - creditsToRefund;
   const projectedCredits = playerCredits !== null ? playerCredits - netCreditChange : null;
@@ -397,7 +349,9 @@ const ArmyBuilder = () => {
         {
           id: createTempUnitId(),
           slotIndex,
-          unitTypeId
+          unitTypeId,
+          upgrades: [],
+          xp: 0
         }
       ]);
       setHasUnsavedChanges(true);
@@ -414,6 +368,28 @@ const ArmyBuilder = () => {
     setCartSuccess(null);
   }, []);
 
+  const handleToggleDraftUpgrade = useCallback(
+    (unitId: string, upgradeId: UnitUpgradeId) => {
+      if (armyUnits.some((saved) => saved.id === unitId && saved.upgrades.includes(upgradeId))) return;
+      setDraftUnits((prev) =>
+        prev.map((unit) =>
+          unit.id === unitId
+            ? {
+                ...unit,
+                upgrades: unit.upgrades.includes(upgradeId)
+                  ? unit.upgrades.filter((owned) => owned !== upgradeId)
+                  : [...unit.upgrades, upgradeId]
+              }
+            : unit
+        )
+      );
+      setHasUnsavedChanges(true);
+      setCartError(null);
+      setCartSuccess(null);
+    },
+    [armyUnits]
+  );
+
   const handleClearDraft = useCallback(() => {
     setDraftUnits([]);
     setHasUnsavedChanges(true);
@@ -429,7 +405,7 @@ const ArmyBuilder = () => {
   }, [armyUnits]);
 
   const handleApplyChanges = useCallback(async () => {
-    if (!player || !armyId) {
+    if (!player || !armyId || !session) {
       setCartError('Login to save your army.');
       return;
     }
@@ -460,44 +436,18 @@ const ArmyBuilder = () => {
     }
 
     try {
-      if (pendingRemovals.length) {
-        const { error: deleteError } = await supabase
-          .from('player_army_units')
-          .delete()
-          .in('id', pendingRemovals.map((unit) => unit.id));
-        if (deleteError) {
-          throw deleteError;
-        }
-      }
-
-      if (pendingAdditions.length) {
-        const insertPayload = pendingAdditions.map((unit) => ({
-          player_army_id: armyId,
-          unit_type_id: unit.unitTypeId,
-          row: 0,
-          col: unit.slotIndex,
-          behavior_config: null
-        }));
-
-        const { error: insertError } = await supabase
-          .from('player_army_units')
-          .insert(insertPayload);
-
-        if (insertError) {
-          throw insertError;
-        }
-      }
-
-      if (netCreditChange !== 0) {
-        const { error: creditError } = await supabase
-          .from('players')
-          .update({ current_credits: nextCredits })
-          .eq('id', player.id);
-
-        if (creditError) {
-          throw creditError;
-        }
-      }
+      // The server prices the change and writes the credits and units together
+      await saveArmyChanges(session.access_token, {
+        changeId: crypto.randomUUID(),
+        armyId,
+        removals: pendingRemovals.map((unit) => unit.id),
+        additions: pendingAdditions.map((unit) => ({
+          unitTypeId: unit.unitTypeId,
+          slotIndex: unit.slotIndex,
+          upgrades: unit.upgrades
+        })),
+        upgrades: pendingUpgrades.map((unit) => ({ instanceId: unit.id, upgrades: unit.upgrades }))
+      });
 
       refreshArmy();
       refreshPlayer();
@@ -538,10 +488,12 @@ const ArmyBuilder = () => {
   }, [
     player,
     armyId,
+    session,
     hasUnsavedChanges,
     netCreditChange,
     pendingRemovals,
     pendingAdditions,
+    pendingUpgrades,
     refreshArmy,
     refreshPlayer,
     setPlayerCredits,
@@ -669,9 +621,35 @@ const ArmyBuilder = () => {
                       <p>{unit.name}</p>
                       <small className="muted">Supply: {unit.supplyCost ?? unit.cost}</small>
                       <small>Slot {unit.slotIndex + 1}</small>
+                      <small className="level-chip" title={formatXpProgress(unit.xp ?? 0)}>
+                        Lv {getUnitLevel(unit.xp)}
+                      </small>
                       {pendingAdditions.some((pending) => pending.id === unit.instanceId) && (
                         <small className="new-chip">New</small>
                       )}
+                      {getUpgradeOptions(unit.id).length > 0 && (
+                        <div className="upgrade-chips">
+                          {getUpgradeOptions(unit.id).map((upgradeId) => {
+                            const owned = unit.upgrades?.includes(upgradeId) ?? false;
+                            const saved = armyUnits.some(
+                              (savedUnit) => savedUnit.id === unit.instanceId && savedUnit.upgrades.includes(upgradeId)
+                            );
+                            return (
+                              <button
+                                key={upgradeId}
+                                type="button"
+                                className={`upgrade-chip ${owned ? 'upgrade-chip--owned' : ''}`}
+                                onClick={() => handleToggleDraftUpgrade(unit.instanceId, upgradeId)}
+                                disabled={!canModify || saved}
+                                title={UNIT_UPGRADES[upgradeId].description}
+                              >
+                                {owned ? '★' : '+'} {UNIT_UPGRADES[upgradeId].label}
+                                {!saved && <small> {UNIT_UPGRADES[upgradeId].creditCost}c</small>}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="roster-item__actions">
@@ -896,8 +874,11 @@ const ArmyBuilder = () => {
               >
                 {(activeUnit?.upgradeOptions ?? []).length > 0 ? (
                   <ul>
-                    {activeUnit?.upgradeOptions.map((upgrade) => (
-                      <li key={upgrade}>{upgrade}</li>
+                    {activeUnit?.upgradeOptions.filter(isUnitUpgradeId).map((upgradeId) => (
+                      <li key={upgradeId}>
+                        <strong>{UNIT_UPGRADES[upgradeId].label}</strong> — {UNIT_UPGRADES[upgradeId].description} (
+                        {UNIT_UPGRADES[upgradeId].creditCost} credits)
+                      </li>
                     ))}
                   </ul>
                 ) : (
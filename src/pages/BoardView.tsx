@@ -1,7 +1,6 @@
 import { lazy, Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { PointerEvent as ReactPointerEvent } from 'react';
-import { BOARD_SIZE, BOARD_COLS, PLAYER_ZONE_START } from '../engine/battleEngine';
-import type { Team, BattleTickResult } from '../engine/battleEngine';
+import type { Team, BattleTickResult, BattleOutcomeReason } from '../engine/battleEngine';
 import type { ArmyUnitInstance, BoardPlacements, PlacedUnit, UnitLogic } from '../types';
 import type { TileOccupant } from '../components/createTacticalBoard';
 import { useUser } from '../context/UserContext';
@@ -9,23 +8,34 @@ import { useMultiplayer } from '../context/MultiplayerContext';
 import { placementToArmyConfig } from '../utils/placementToArmyConfig';
 const ThreeBattleStage = lazy(() => import('../components/ThreeBattleStage'));
 const UnitLogicPanel = lazy(() => import('../components/UnitLogicPanel'));
+import MindGamePanel from '../components/MindGamePanel';
+import SeriesPanel from '../components/SeriesPanel';
 import { calculateTickDuration } from '../components/units/useUnitLayer';
 import type { DemoState, HitEvent } from '../types/battle';
 import { useUnitCatalog } from '../hooks/useUnitCatalog';
+import { BEHAVIOR_SCHEMA_VERSION, describeBehaviorConfig, getBehaviorCategories } from '../../shared/gddUnits';
+import type { BehaviorKey, BehaviorValues } from '../../shared/gddUnits';
 import { usePlayerArmy } from '../hooks/usePlayerArmy';
+import { CURRENT_RULESET } from '../../shared/ruleset';
+import { getDeploymentArea } from '../../shared/deployment';
+import type { MatchFormat } from '../../shared/series';
 import './BoardView.css';
 
 // Dynamic tick duration is now calculated per-tick based on animations that will play.
 // These constants provide fallbacks and minimum values.
 const DEFAULT_TICK_MS = 2000;  // Fallback when no animations are playing
 const MIN_TICK_MS = 800;       // Minimum tick duration for visual clarity
-const MAX_SUPPLY = 20;
-const PLANNING_ROWS = 6;
-const PLANNING_COLS = 6;
-const PLANNING_ROW_OFFSET = PLAYER_ZONE_START;
 
 type OutcomeState = 'win' | 'lose' | 'draw' | 'pending';
 
+const OUTCOME_REASON_LABELS: Record<BattleOutcomeReason, string> = {
+  breach: 'Back-row breach',
+  elimination: 'Army eliminated',
+  noPathToWin: 'No path to win left',
+  stalemate: 'Stalemate',
+  tickLimit: 'Turn limit reached'
+};
+
 const mapServerWinnerToTeam = (
   winner: 'A' | 'B' | 'draw',
   role: 'A' | 'B' | null
@@ -60,18 +70,37 @@ const BoardView = () => {
     status: multiplayerStatus,
     users: onlineUsers,
     incomingChallenge,
+    incomingChallengeFormat,
     lastResult: multiplayerResult,
     setArmy: setMultiplayerArmy,
     challenge: sendChallenge,
     respondToChallenge,
     startDemoBattle,
     currentRole,
+    ruleset: serverRuleset,
+    mindGame,
+    submitAdjustment,
+    series,
+    submitSeriesArmy,
+    dismissSeries,
+    armyErrors,
+    userId: serverPlayerId,
   } = useMultiplayer();
   const { units: catalogUnits } = useUnitCatalog();
   const { units: armyUnits, loading: armyLoading } = usePlayerArmy();
   const currentUserId = currentUser?.id ?? null;
   const currentUsername = currentUser?.username ?? null;
+  const strategyBook = currentUser?.strategies;
   const isServerConnected = multiplayerStatus === 'connected';
+  // Armies are planned under the connected server's ruleset; a battle is shown on the board it was played on
+  const planningRuleset = serverRuleset ?? CURRENT_RULESET;
+  const supplyCap = planningRuleset.supplyCap;
+  // Free placement (GDD 5.3) plans on the whole board; otherwise only on the rows at the local player's end
+  const deploymentArea = getDeploymentArea(planningRuleset);
+  const planningRows = deploymentArea.rows;
+  const planningCols = deploymentArea.cols;
+  const planningRowOffset = deploymentArea.firstRow;
+  const battleBoard = (multiplayerResult?.ruleset ?? serverRuleset ?? CURRENT_RULESET).board;
   const [placements, setPlacements] = useState<BoardPlacements>(currentUser?.boardPlacements ?? {});
   const [supplyError, setSupplyError] = useState<string | null>(null);
   const [battleState, setBattleState] = useState<DemoState>('idle');
@@ -116,7 +145,12 @@ const BoardView = () => {
       .map((armyUnit) => {
         const meta = catalogById.get(armyUnit.unitTypeId.toLowerCase());
         if (!meta) return null;
-        return { ...meta, instanceId: armyUnit.id } as ArmyUnitInstance;
+        return {
+          ...meta,
+          instanceId: armyUnit.id,
+          upgrades: armyUnit.upgrades,
+          xp: armyUnit.xp
+        } as ArmyUnitInstance;
       })
       .filter(Boolean) as ArmyUnitInstance[];
   }, [armyUnits, catalogById]);
@@ -151,11 +185,13 @@ const BoardView = () => {
           position,
           team: 'player' as const,
           currentHp: unit.hp,
-          selectedBehaviors: unitLogic[unit.instanceId]
+          behaviorConfig: unitLogic[unit.instanceId],
+          // Rules travel with the army so the server's engine runs the same strategy book
+          strategyRules: strategyBook?.[unit.id]
         };
       })
       .filter(Boolean) as PlacedUnit[];
-  }, [armyInstances, placements, unitLogic]);
+  }, [armyInstances, placements, unitLogic, strategyBook]);
 
   const queueUnits = useMemo(() => {
     return armyInstances.filter((unit) => !placements[unit.instanceId]);
@@ -166,8 +202,8 @@ const BoardView = () => {
     [placedUnits, resolveSupplyCost]
   );
 
-  const remainingSupply = Math.max(0, MAX_SUPPLY - totalSupplyUsed);
-  const isSupplyCapReached = totalSupplyUsed >= MAX_SUPPLY;
+  const remainingSupply = Math.max(0, supplyCap - totalSupplyUsed);
+  const isSupplyCapReached = totalSupplyUsed >= supplyCap;
 
   const activeUnits = battleState === 'idle' ? placedUnits : simulationUnits;
 
@@ -177,32 +213,44 @@ const BoardView = () => {
       .map((unit) => ({
         ...unit,
         position: {
-          row: unit.position.row - PLANNING_ROW_OFFSET,
+          row: unit.position.row - planningRowOffset,
           col: unit.position.col
         }
       }))
       .filter(
         (unit) =>
           unit.position.row >= 0 &&
-          unit.position.row < PLANNING_ROWS &&
+          unit.position.row < planningRows &&
           unit.position.col >= 0 &&
-          unit.position.col < PLANNING_COLS
+          unit.position.col < planningCols
       );
-  }, [battleState, placedUnits]);
+  }, [battleState, placedUnits, planningCols, planningRowOffset, planningRows]);
+
+  // During the pre-battle mind game the stage shows both revealed armies on the whole board, read-only
+  const isMindGame = battleState === 'idle' && mindGame !== null;
+  const mindGameUnits = useMemo(
+    () =>
+      mindGame
+        ? [...mindGame.yourArmy.map((unit) => ({ ...unit, team: 'player' as const })), ...mindGame.opponentArmy]
+        : [],
+    [mindGame]
+  );
 
-  const stageUnits = battleState === 'idle' ? planningUnits : activeUnits;
+  const stageUnits = isMindGame ? mindGameUnits : battleState === 'idle' ? planningUnits : activeUnits;
 
-  const stageBoardRows = battleState === 'idle' ? PLANNING_ROWS : BOARD_SIZE;
-  const stageBoardCols = battleState === 'idle' ? PLANNING_COLS : BOARD_COLS;
+  const stageBoardRows = isMindGame ? planningRuleset.board.rows : battleState === 'idle' ? planningRows : battleBoard.rows;
+  const stageBoardCols = isMindGame ? planningRuleset.board.cols : battleState === 'idle' ? planningCols : battleBoard.cols;
   const stageHitCells = battleState === 'idle' ? [] : hitCells;
   const stageMoveCells = battleState === 'idle' ? [] : moveCells;
   const stageMarchCells = battleState === 'idle' ? [] : marchCells;
+  // The map is drawn by the server per match, so terrain only shows once a battle is under way
+  const stageTerrain = battleState === 'idle' ? undefined : multiplayerResult?.map?.tiles;
 
   const hoveredUnit = useMemo(() => {
     if (!hoveredTile) return null;
-    const boardRow = hoveredTile.row + PLANNING_ROW_OFFSET;
+    const boardRow = hoveredTile.row + planningRowOffset;
     return placedUnits.find((unit) => unit.position.row === boardRow && unit.position.col === hoveredTile.col) ?? null;
-  }, [hoveredTile, placedUnits]);
+  }, [hoveredTile, placedUnits, planningRowOffset]);
 
   const tilePressRef = useRef<{ unit: PlacedUnit; startX: number; startY: number } | null>(null);
   const DRAG_START_THRESHOLD = 6;
@@ -219,8 +267,8 @@ const BoardView = () => {
   }, [queueUnits]);
 
   const otherOnlineUsers = useMemo(
-    () => onlineUsers.filter((user) => user !== currentUsername),
-    [currentUsername, onlineUsers]
+    () => onlineUsers.filter((user) => user.playerId !== serverPlayerId),
+    [serverPlayerId, onlineUsers]
   );
 
   const restoreUnitsToFullHp = useCallback((units: PlacedUnit[]): PlacedUnit[] => {
@@ -278,10 +326,10 @@ const BoardView = () => {
   }, [supplyError]);
 
   useEffect(() => {
-    if (totalSupplyUsed < MAX_SUPPLY) {
+    if (totalSupplyUsed < supplyCap) {
       setSupplyError(null);
     }
-  }, [totalSupplyUsed]);
+  }, [supplyCap, totalSupplyUsed]);
 
   const syncArmyToServer = useCallback(() => {
     if (!isServerConnected || placedUnits.length === 0) {
@@ -295,7 +343,7 @@ const BoardView = () => {
   }, [syncArmyToServer]);
 
   const handleChallengeUser = useCallback(
-    (opponentName: string) => {
+    (opponentId: string, format: MatchFormat = 'single') => {
       if (!isServerConnected) {
         alert('Connect to the multiplayer server before sending a challenge.');
         return;
@@ -305,11 +353,19 @@ const BoardView = () => {
         return;
       }
       syncArmyToServer();
-      sendChallenge(opponentName);
+      sendChallenge(opponentId, format);
     },
     [isServerConnected, placedUnits.length, sendChallenge, syncArmyToServer]
   );
 
+  // Between series matches the planning board holds the adjusted army
+  const plannedArmy = useMemo(() => placementToArmyConfig(placedUnits), [placedUnits]);
+
+  const handleLockInSeriesArmy = useCallback(() => {
+    if (!series) return;
+    submitSeriesArmy(series.seriesId, plannedArmy);
+  }, [plannedArmy, series, submitSeriesArmy]);
+
   const handleAcceptChallenge = useCallback(() => {
     if (!incomingChallenge) {
       return;
@@ -323,14 +379,14 @@ const BoardView = () => {
       return;
     }
     syncArmyToServer();
-    respondToChallenge(incomingChallenge, true);
+    respondToChallenge(incomingChallenge.playerId, true);
   }, [incomingChallenge, isServerConnected, placedUnits.length, respondToChallenge, syncArmyToServer]);
 
   const handleDeclineChallenge = useCallback(() => {
     if (!incomingChallenge) {
       return;
     }
-    respondToChallenge(incomingChallenge, false);
+    respondToChallenge(incomingChallenge.playerId, false);
   }, [incomingChallenge, respondToChallenge]);
 
   const handleDemoBattle = useCallback(() => {
@@ -356,8 +412,8 @@ const BoardView = () => {
 
   const isWithinPlanningBounds = useCallback(
     (row: number, col: number) =>
-      row >= PLANNING_ROW_OFFSET && row < PLANNING_ROW_OFFSET + PLANNING_ROWS && col >= 0 && col < PLANNING_COLS,
-    []
+      row >= planningRowOffset && row < planningRowOffset + planningRows && col >= 0 && col < planningCols,
+    [planningCols, planningRowOffset, planningRows]
   );
 
   const commitPlacement = useCallback(
@@ -373,8 +429,8 @@ const BoardView = () => {
       const unitSupply = resolveSupplyCost(unit.id, unit);
       const alreadyPlaced = Boolean(placements[unit.instanceId]);
       const projectedSupply = totalSupplyUsed + (alreadyPlaced ? 0 : unitSupply);
-      if (projectedSupply > MAX_SUPPLY) {
-        setSupplyError(`Supply cap reached (${MAX_SUPPLY}). Remove a unit to add another.`);
+      if (projectedSupply > supplyCap) {
+        setSupplyError(`Supply cap reached (${supplyCap}). Remove a unit to add another.`);
         return false;
       }
 
@@ -382,7 +438,7 @@ const BoardView = () => {
       setPlacements((prev) => ({ ...prev, [unit.instanceId]: { row: targetRow, col: targetCol } }));
       return true;
     },
-    [isWithinPlanningBounds, placedUnits, resolveSupplyCost, totalSupplyUsed, placements]
+    [isWithinPlanningBounds, placedUnits, resolveSupplyCost, supplyCap, totalSupplyUsed, placements]
   );
 
   const startStackDrag = useCallback((event: ReactPointerEvent, unit: ArmyUnitInstance) => {
@@ -416,7 +472,7 @@ const BoardView = () => {
       }
       // row < 0 means drop was outside a valid tile (cancellation)
       if (row >= 0 && col >= 0 && !occupied) {
-        const boardRow = row + PLANNING_ROW_OFFSET;
+        const boardRow = row + planningRowOffset;
         console.log('[BoardView] Committing placement at:', boardRow, col);
         commitPlacement(draggingUnit.unit, boardRow, col);
       } else {
@@ -424,17 +480,17 @@ const BoardView = () => {
       }
       endDrag();
     },
-    [commitPlacement, draggingUnit, endDrag]
+    [commitPlacement, draggingUnit, endDrag, planningRowOffset]
   );
 
   const handleTileClick = useCallback(
     ({ row, col }: { row: number; col: number; occupied: TileOccupant | null }) => {
-      const boardRow = row + PLANNING_ROW_OFFSET;
+      const boardRow = row + planningRowOffset;
       const unit = placedUnits.find((placed) => placed.position.row === boardRow && placed.position.col === col);
       if (!unit) return;
       setTileMenu({ row: boardRow, col, unit });
     },
-    [placedUnits]
+    [placedUnits, planningRowOffset]
   );
 
   const beginMoveFromTile = useCallback(
@@ -465,26 +521,18 @@ const BoardView = () => {
     setLogicPanelUnit(null);
   }, []);
 
-  const handleBehaviorSelect = useCallback((instanceId: string, behavior: string, categoryKey?: string) => {
-    setUnitLogic((prev) => {
-      const currentBehaviors = prev[instanceId] ?? [];
-      
-      if (categoryKey) {
-        // For categorized behaviors (like Archer), toggle within category
-        const newBehaviors = currentBehaviors.filter(b => !b.startsWith(categoryKey));
-        return {
-          ...prev,
-          [instanceId]: [...newBehaviors, behavior]
-        };
-      }
-      
-      // For simple behaviors, replace entirely
-      return {
+  const handleBehaviorSelect = useCallback(
+    (instanceId: string, key: BehaviorKey, value: BehaviorValues[BehaviorKey]) => {
+      setUnitLogic((prev) => ({
         ...prev,
-        [instanceId]: [behavior]
-      };
-    });
-  }, []);
+        [instanceId]: {
+          ...(prev[instanceId] ?? { version: BEHAVIOR_SCHEMA_VERSION }),
+          [key]: value
+        }
+      }));
+    },
+    []
+  );
 
   const handlePointerMove = useCallback(
     (event: PointerEvent) => {
@@ -738,6 +786,16 @@ const BoardView = () => {
           Login (or reconnect) to the multiplayer server to sync your army.
         </p>
       )}
+      {armyErrors.length > 0 && (
+        <div className="army-note warning" role="alert">
+          The server refused this army:
+          <ul>
+            {armyErrors.map((error, index) => (
+              <li key={`${error.code}-${error.instanceId ?? index}`}>{error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
       <button
         type="button"
         className="save-placement-btn"
@@ -754,7 +812,7 @@ const BoardView = () => {
       >
         ⚔️ Demo Battle
       </button>
-      <p className="army-note">Drag units onto the 6x6 blue grid, save your army, then challenge another player or try a demo battle.</p>
+      <p className="army-note">Drag units onto the blue grid, save your army, then challenge another player or try a demo battle.</p>
     </div>
   );
 
@@ -770,14 +828,15 @@ const BoardView = () => {
           </p>
         </div>
         <span className={`multiplayer-status ${multiplayerStatus}`}>
-          {multiplayerStatus.toUpperCase()}
+          {multiplayerStatus.replace('-', ' ').toUpperCase()}
         </span>
       </div>
 
       {incomingChallenge && (
         <div className="challenge-banner" role="alert">
           <div>
-            <strong>{incomingChallenge}</strong> challenged you to a battle.
+            <strong>{incomingChallenge.name}</strong> challenged you to{' '}
+            {incomingChallengeFormat === 'best_of_3' ? 'a best-of-3 series' : 'a battle'}.
           </div>
           <div className="challenge-banner-actions">
             <button
@@ -804,16 +863,26 @@ const BoardView = () => {
           <p className="user-list-empty">No other players online right now.</p>
         ) : (
           otherOnlineUsers.map((user) => (
-            <div key={user} className="multiplayer-user-row">
-              <span>{user}</span>
-              <button
-                type="button"
-                className="challenge-btn"
-                onClick={() => handleChallengeUser(user)}
-                disabled={!isServerConnected || placedUnits.length === 0}
-              >
-                Challenge
-              </button>
+            <div key={user.playerId} className="multiplayer-user-row">
+              <span>{user.name}</span>
+              <div className="challenge-banner-actions">
+                <button
+                  type="button"
+                  className="challenge-btn"
+                  onClick={() => handleChallengeUser(user.playerId)}
+                  disabled={!isServerConnected || placedUnits.length === 0}
+                >
+                  Challenge
+                </button>
+                <button
+                  type="button"
+                  className="challenge-btn"
+                  onClick={() => handleChallengeUser(user.playerId, 'best_of_3')}
+                  disabled={!isServerConnected || placedUnits.length === 0}
+                >
+                  Best of 3
+                </button>
+              </div>
             </div>
           ))
         )}
@@ -911,6 +980,9 @@ const BoardView = () => {
       if (winner === 'enemy') return 'Regroup and retry';
       return 'Stalemate reached';
     }
+    if (isMindGame) {
+      return mindGame?.yourTurn ? 'Your move' : 'Opponent adjusting';
+    }
     if (!isServerConnected) {
       return 'Connect to server';
     }
@@ -929,6 +1001,9 @@ const BoardView = () => {
         ? 'A stalemate is still intel—review the replay and refine your tactics.'
         : 'Replay the results below, then tweak placements for the next sortie.';
     }
+    if (isMindGame) {
+      return 'Both boards are revealed: study the enemy formation before the battle resolves.';
+    }
     return 'Drag units on the left, then preview their posture in full 3D.';
   })();
 
@@ -940,6 +1015,19 @@ const BoardView = () => {
     return 'Battle Complete';
   })();
 
+  // The server mirrors the summary for player B, so 'player' is always the local side
+  const battleSummary = battleState === 'finished' ? multiplayerResult?.summary : undefined;
+  const breachUnitName = (() => {
+    if (!battleSummary?.breachUnitId) return null;
+    const finalUnits = battleTimeline[battleTimeline.length - 1]?.units ?? [];
+    return finalUnits.find((unit) => unit.instanceId === battleSummary.breachUnitId)?.name ?? null;
+  })();
+
+  const displacedUnitCount =
+    battleState === 'finished'
+      ? (multiplayerResult?.displacements ?? []).filter((displacement) => displacement.team === 'player').length
+      : 0;
+
   const battleResultDescription = (() => {
     if (!winner) return '';
     if (overallOutcome === 'win') {
@@ -982,11 +1070,12 @@ const BoardView = () => {
                   marchCells={stageMarchCells}
                   demoState={battleState}
                   interactionMode="planning"
-                  dragActive={Boolean(draggingUnit)}
-                  onTileHover={handleTileHover}
-                  onTileDrop={handleTileDrop}
-                  onTileClick={handleTileClick}
-                  forceOwner="blue"
+                  dragActive={!isMindGame && Boolean(draggingUnit)}
+                  onTileHover={isMindGame ? undefined : handleTileHover}
+                  onTileDrop={isMindGame ? undefined : handleTileDrop}
+                  onTileClick={isMindGame ? undefined : handleTileClick}
+                  forceOwner={isMindGame ? undefined : 'blue'}
+                  terrain={stageTerrain}
                 />
               </Suspense>
               {countdownValue !== null && (
@@ -1010,7 +1099,7 @@ const BoardView = () => {
               <div className="unit-stack-panel">
                 <div className="panel-heading">
                   <h2>Available Units</h2>
-                  <p>Drag a stack onto the close-up 6x6 grid. Yellow glow means the drop is valid; red means blocked.</p>
+                  <p>Drag a stack onto the close-up grid. Yellow glow means the drop is valid; red means blocked.</p>
                 </div>
                 <div className="unit-stack-list">
                   {availableStacks.length === 0 ? (
@@ -1047,9 +1136,9 @@ const BoardView = () => {
                         <div>
                           <h3>{hoveredUnit.name}</h3>
                           <p className="tile-unit-meta">Supply {resolveSupplyCost(hoveredUnit.id, hoveredUnit)}</p>
-                          {hoveredUnit.selectedBehaviors && hoveredUnit.selectedBehaviors.length > 0 && (
+                          {getBehaviorCategories(hoveredUnit.id).length > 0 && (
                             <div className="tile-unit-behaviors">
-                              {hoveredUnit.selectedBehaviors.map((behavior, idx) => (
+                              {describeBehaviorConfig(hoveredUnit.id, hoveredUnit.behaviorConfig).map((behavior, idx) => (
                                 <p key={idx} className="tile-unit-behavior">⚙️ {behavior}</p>
                               ))}
                             </div>
@@ -1095,6 +1184,7 @@ const BoardView = () => {
                 interactionMode="battle"
                 dragActive={false}
                 forceOwner={undefined}
+                terrain={stageTerrain}
               />
             </Suspense>
             {countdownValue !== null && (
@@ -1123,7 +1213,7 @@ const BoardView = () => {
       {battleState === 'idle' && armyControls}
       {battleState === 'idle' && (
         <div className="supply-status" role="status" aria-live="polite">
-          <div className="supply-meter">Supply: {totalSupplyUsed} / {MAX_SUPPLY}</div>
+          <div className="supply-meter">Supply: {totalSupplyUsed} / {supplyCap}</div>
           <div className={`supply-remaining ${isSupplyCapReached ? 'cap' : ''}`}>
             {isSupplyCapReached ? 'Cap reached' : `${remainingSupply} remaining`}
           </div>
@@ -1134,6 +1224,24 @@ const BoardView = () => {
           )}
         </div>
       )}
+      {mindGame && battleState === 'idle' && (
+        <MindGamePanel
+          key={`${mindGame.matchId}-${mindGame.step}`}
+          reveal={mindGame}
+          deploymentArea={deploymentArea}
+          onSubmit={(adjustment) => submitAdjustment(mindGame.matchId, adjustment)}
+        />
+      )}
+      {series && (battleState === 'idle' || battleState === 'finished') && (
+        <SeriesPanel
+          series={series}
+          role={currentRole}
+          plannedArmy={plannedArmy}
+          deploymentArea={deploymentArea}
+          onLockIn={handleLockInSeriesArmy}
+          onDismiss={dismissSeries}
+        />
+      )}
       {multiplayerPanel}
 
       {battleState === 'finished' && (
@@ -1141,6 +1249,47 @@ const BoardView = () => {
           <div>
             <h2>{battleResultHeading || 'Battle Complete'}</h2>
             <p>{battleResultDescription || 'Review the replay in the 3D view above, then tweak placements.'}</p>
+            {battleSummary && (
+              <div className="battle-outcome">
+                <p className="battle-outcome-reason">
+                  {OUTCOME_REASON_LABELS[battleSummary.reason]}
+                  {breachUnitName ? ` by ${battleSummary.winner === 'player' ? 'your' : 'their'} ${breachUnitName}` : ''}
+                  {` · ${battleSummary.totalTurns} turns`}
+                </p>
+                {displacedUnitCount > 0 && (
+                  <p className="battle-outcome-reason">
+                    {displacedUnitCount === 1 ? '1 unit was' : `${displacedUnitCount} units were`} moved off tiles your
+                    opponent also claimed
+                  </p>
+                )}
+                <table className="battle-outcome-stats">
+                  <thead>
+                    <tr>
+                      <th />
+                      <th>You</th>
+                      <th>Opponent</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td>Kills</td>
+                      <td>{battleSummary.teams.player.kills}</td>
+                      <td>{battleSummary.teams.enemy.kills}</td>
+                    </tr>
+                    <tr>
+                      <td>Damage dealt</td>
+                      <td>{battleSummary.teams.player.damageDealt}</td>
+                      <td>{battleSummary.teams.enemy.damageDealt}</td>
+                    </tr>
+                    <tr>
+                      <td>Shield absorbed</td>
+                      <td>{battleSummary.teams.player.damageAbsorbed}</td>
+                      <td>{battleSummary.teams.enemy.damageAbsorbed}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
           <button type="button" className="exit-battle-btn" onClick={exitBattle}>
             Return to Planning
@@ -1160,7 +1309,7 @@ const BoardView = () => {
           <div className="tile-menu-card" onClick={(event) => event.stopPropagation()}>
             <div className="tile-menu-header">
               <h3>{tileMenu.unit.name}</h3>
-              <p>Tile {tileMenu.row - PLANNING_ROW_OFFSET + 1}, {tileMenu.col + 1}</p>
+              <p>Tile {tileMenu.row - planningRowOffset + 1}, {tileMenu.col + 1}</p>
             </div>
             <div className="tile-menu-actions">
               <button
@@ -1196,7 +1345,7 @@ const BoardView = () => {
         <Suspense fallback={<div>Loading logic panel…</div>}>
           <UnitLogicPanel
             unit={syncedLogicPanelUnit}
-            onBehaviorSelect={(behavior, categoryKey) => handleBehaviorSelect(syncedLogicPanelUnit.instanceId, behavior, categoryKey)}
+            onBehaviorSelect={(key, value) => handleBehaviorSelect(syncedLogicPanelUnit.instanceId, key, value)}
             onClose={closeLogicPanel}
           />
         </Suspense>
@@ -44,34 +44,32 @@ export default function DebugNetwork() {
     respondToChallenge,
   } = useMultiplayer();
 
-  const activeUsername = currentUser?.username ?? user?.email ?? null;
-
   // Update displayed result when lastResult changes
   if (lastResult && lastResult !== displayedResult) {
     setDisplayedResult(lastResult);
   }
 
-  const handleChallenge = (opponentName: string) => {
-    challenge(opponentName);
+  const handleChallenge = (opponentId: string) => {
+    challenge(opponentId);
   };
 
   const handleAcceptChallenge = () => {
     if (incomingChallenge) {
-      respondToChallenge(incomingChallenge, true);
+      respondToChallenge(incomingChallenge.playerId, true);
     }
   };
 
   const handleDeclineChallenge = () => {
     if (incomingChallenge) {
-      respondToChallenge(incomingChallenge, false);
+      respondToChallenge(incomingChallenge.playerId, false);
     }
   };
 
   useEffect(() => {
-    if (status === 'connected' && activeUsername) {
+    if (status === 'connected' && userId) {
       setArmy(demoArmy);
     }
-  }, [activeUsername, demoArmy, setArmy, status]);
+  }, [userId, demoArmy, setArmy, status]);
 
   return (
     <div style={{ padding: '20px', fontFamily: 'sans-serif' }}>
@@ -88,7 +86,7 @@ export default function DebugNetwork() {
                 status === 'connected' ? 'green' : status === 'connecting' ? 'orange' : 'red',
             }}
           >
-            {status.toUpperCase()}
+            {status.replace('-', ' ').toUpperCase()}
           </span>
         </div>
 
@@ -137,22 +135,22 @@ export default function DebugNetwork() {
             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
               {users.map((user) => (
                 <div
-                  key={user}
+                  key={user.playerId}
                   style={{
                     display: 'flex',
                     justifyContent: 'space-between',
                     alignItems: 'center',
                     padding: '8px',
-                    backgroundColor: user === activeUsername ? '#e8f4f8' : '#f5f5f5',
+                    backgroundColor: user.playerId === userId ? '#e8f4f8' : '#f5f5f5',
                   }}
                 >
                   <span>
-                    <strong>{user}</strong>
-                    {user === activeUsername && ' (you)'}
+                    <strong>{user.name}</strong>
+                    {user.playerId === userId && ' (you)'}
                   </span>
-                  {user !== activeUsername && (
+                  {user.playerId !== userId && (
                     <button
-                      onClick={() => handleChallenge(user)}
+                      onClick={() => handleChallenge(user.playerId)}
                       style={{ padding: '3px 10px' }}
                     >
                       Challenge
@@ -192,7 +190,7 @@ export default function DebugNetwork() {
           >
             <h2 style={{ marginTop: 0 }}>Challenge Received!</h2>
             <p style={{ fontSize: '18px', marginBottom: '20px' }}>
-              <strong>{incomingChallenge}</strong> wants to battle you!
+              <strong>{incomingChallenge.name}</strong> wants to battle you!
             </p>
             <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
               <button
@@ -2,24 +2,12 @@ import { useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
 import { units } from '../data/units';
 import { useUser } from '../context/UserContext';
+import { STRATEGY_ACTIONS, STRATEGY_CONDITIONS } from '../engine/strategyRules';
 import './StrategyEditor.css';
 
-const conditionOptions = [
-  'HP below 40%',
-  'Enemy in range',
-  'Ally injured nearby',
-  'Path blocked',
-  'Enemy type: Giant'
-];
-
-const actionOptions = [
-  'Move forward',
-  'Shift sideways',
-  'Retreat 2 tiles',
-  'Swap with ally',
-  'Hold position',
-  'Attack priority target'
-];
+// The battle engine interprets exactly these phrases
+const conditionOptions: readonly string[] = STRATEGY_CONDITIONS;
+const actionOptions: readonly string[] = STRATEGY_ACTIONS;
 
 const StrategyEditor = () => {
   const { currentUser, addStrategyRule, removeStrategyRule } = useUser();
@@ -87,8 +75,8 @@ const StrategyEditor = () => {
 
         <section className="rule-builder-panel">
           <div className="rule-builder-header">
-            <h3>Prototype Rule Builder</h3>
-            <p>Save placeholder rules per unit to test upcoming automation.</p>
+            <h3>Rule Builder</h3>
+            <p>Each turn a unit follows the first rule whose condition holds; otherwise it uses its default behavior.</p>
           </div>
           <form className="rule-form" onSubmit={handleSave}>
             <label>
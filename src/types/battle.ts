@@ -13,4 +13,58 @@ export interface HitEvent {
 	targetPosition: Position;
 	attackType: AttackType;
 	didKill: boolean;
+	damageToHp: number;
+	damageToShield: number;
+}
+
+export interface StatusEvent {
+	id: string;
+	type: 'paralyze';
+	sourceId: string;
+	sourceTeam: 'player' | 'enemy';
+	sourcePosition: Position;
+	targetId: string;
+	targetPosition: Position;
+	turns: number;
+	refreshed: boolean;
+}
+
+/**
+ * What a unit did on its team's turn. Every living unit of the acting team gets exactly one record.
+ * - move / attack: the planned action went through
+ * - idle: the unit had nothing it could do (see reason)
+ * - blocked: the unit planned an action that was dropped when actions resolved (see reason)
+ * - paralyzed: the unit skipped its turn under paralysis
+ */
+export type UnitActionKind = 'move' | 'attack' | 'idle' | 'blocked' | 'paralyzed';
+
+export type UnitActionReason =
+	| 'resting' // slow unit waiting out its speed
+	| 'slowed' // stuck in mud for this turn
+	| 'noPath' // board edge or no step in the unit's pattern
+	| 'allyAhead' // ally in front that is not advancing this turn
+	| 'enemyOutOfReach' // enemy in front but outside the attack pattern
+	| 'collision' // another unit moved to the same tile this turn
+	| 'tileOccupied' // destination still occupied when moves resolved
+	| 'targetDead' // target died earlier in the same turn
+	| 'holdPosition' // a strategy rule ordered the unit to hold
+	| 'ruleUnavailable'; // a strategy rule matched but its action was impossible
+
+export interface UnitActionRecord {
+	unitId: string;
+	team: 'player' | 'enemy';
+	kind: UnitActionKind;
+	/** Where the unit stood when it acted */
+	from: Position;
+	/** Move destination, or the tile that was attacked */
+	to?: Position;
+	targetId?: string;
+	attackType?: AttackType | 'paralyze';
+	/** For blocked records: the action that was planned */
+	planned?: 'move' | 'attack';
+	reason?: UnitActionReason;
+	/** Strategy rule that chose the action, if any */
+	ruleId?: string;
+	/** HP lost to the terrain the unit moved onto */
+	terrainDamage?: number;
 }
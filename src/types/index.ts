@@ -1,3 +1,5 @@
+import type { BehaviorConfig, UnitUpgradeId } from '../../shared/gddUnits';
+
 // Core Tactica unit definition
 export interface Unit {
   id: string;
@@ -11,7 +13,7 @@ export interface Unit {
   creditCost?: number;
   supplyCost?: number;
   reviveCost?: number;
-  speed: number; // ticks per action
+  speed: number; // ticks per action: the unit acts on every n-th turn of its team
   range: number;
   description?: string;
   behaviorOptions: string[];
@@ -21,6 +23,8 @@ export interface Unit {
 // Individual unit instance tracked in the UI (e.g. Army Builder selections)
 export interface ArmyUnitInstance extends Unit {
   instanceId: string;
+  upgrades?: UnitUpgradeId[]; // Purchased upgrades; stat bonuses are applied when the army enters battle
+  xp?: number; // Battle experience; the level it earns adds small stat bonuses when the army enters battle
 }
 
 // Position on the game board
@@ -29,13 +33,25 @@ export interface Position {
   col: number;
 }
 
+// Timed battle effect carried by a placed unit (e.g. Mage paralysis)
+export type StatusEffectType = 'paralyzed' | 'sidestepPending' | 'slowed';
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  turnsRemaining: number; // counted in the affected unit's own turns
+  sourceId?: string;
+}
+
 // Placed unit on the board
 export interface PlacedUnit extends ArmyUnitInstance {
   position: Position;
   team: 'player' | 'enemy';
   currentHp?: number;
   currentShield?: number;
-  selectedBehaviors?: string[]; // Selected behaviors/logic for this specific instance (supports multiple)
+  behaviorConfig?: BehaviorConfig; // Typed behavior settings for this specific instance
+  selectedBehaviors?: string[]; // Legacy free-text behavior labels; converted to behaviorConfig by the server
+  statusEffects?: StatusEffect[]; // At most one effect per type; re-applying refreshes the timer
+  strategyRules?: StrategyRule[]; // IF/THEN rules from the owner's strategy book, checked in order each turn
 }
 
 // Strategy rule saved per unit type
@@ -62,7 +78,7 @@ export interface BoardPlacements {
 }
 
 export interface UnitLogic {
-  [instanceId: string]: string[] | undefined; // instanceId -> selectedBehaviors array
+  [instanceId: string]: BehaviorConfig | undefined; // instanceId -> behavior settings
 }
 
 // Player data from public.players table
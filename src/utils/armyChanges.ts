@@ -0,0 +1,30 @@
+import { API_BASE_URL } from '../config/api';
+
+export type ArmyChange = {
+  /** New for every save, so a retried request is only charged once */
+  changeId: string;
+  armyId: string;
+  removals: string[];
+  additions: { unitTypeId: string; slotIndex: number; upgrades: string[] }[];
+  upgrades: { instanceId: string; upgrades: string[] }[];
+};
+
+/**
+ * Sends the army builder's changes to the game server, which prices them and charges or refunds
+ * credits through its ledger. Resolves with the wallet balance after the change.
+ */
+export const saveArmyChanges = async (accessToken: string, change: ArmyChange): Promise<number> => {
+  const response = await fetch(`${API_BASE_URL}/army/changes`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(change)
+  });
+  const body = (await response.json().catch(() => ({}))) as { balance?: number; error?: string };
+  if (!response.ok || typeof body.balance !== 'number') {
+    throw new Error(body.error ?? `Failed to update army (${response.status})`);
+  }
+  return body.balance;
+};
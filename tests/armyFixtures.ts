@@ -0,0 +1,16 @@
+// Army fixtures shared by the army validation, mind game and series tests
+import { getDeploymentArea } from '../shared/deployment';
+import { buildGddUnit } from '../shared/gddUnits';
+import type { GddUnitId } from '../shared/gddUnits';
+import { CURRENT_RULESET } from '../shared/ruleset';
+
+/** Where a player may deploy under the current ruleset, in their own coordinates */
+export const area = getDeploymentArea(CURRENT_RULESET);
+
+/** A GDD unit placed on the player's side, as a client would send it */
+export const unit = (instanceId: string, id: GddUnitId, row: number, col: number) => ({
+  ...buildGddUnit(id),
+  instanceId,
+  position: { row, col },
+  team: 'player' as const
+});
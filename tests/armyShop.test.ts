@@ -0,0 +1,82 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { createLocalArmyShop, parseArmyChange, priceArmyChange } from '../server/src/armyShop';
+import { GDD_UNIT_DEFS, getUpgradeOptions, UNIT_UPGRADES } from '../shared/gddUnits';
+
+const [upgradeId] = getUpgradeOptions('knight');
+const knightCost = GDD_UNIT_DEFS.knight.creditCost;
+const archerCost = GDD_UNIT_DEFS.archer.creditCost;
+const upgradeCost = UNIT_UPGRADES[upgradeId].creditCost;
+
+const owned = () => [
+  { instanceId: 'k1', unitTypeId: 'knight', upgrades: [upgradeId], xp: 10 },
+  { instanceId: 'k2', unitTypeId: 'knight', upgrades: [], xp: 0 }
+];
+
+const save = (overrides: Record<string, unknown> = {}) => ({
+  changeId: 'save-1',
+  armyId: 'army-1',
+  removals: [],
+  additions: [],
+  upgrades: [],
+  ...overrides
+});
+
+test('Malformed army changes are refused', () => {
+  assert.strictEqual(parseArmyChange(null), null);
+  assert.strictEqual(parseArmyChange(save({ changeId: '' })), null);
+  assert.strictEqual(parseArmyChange(save({ removals: 'k1' })), null);
+  assert.strictEqual(parseArmyChange(save({ additions: [null] })), null);
+  assert.strictEqual(parseArmyChange(save({ additions: [{ unitTypeId: 'constructor', slotIndex: 0, upgrades: [] }] })), null);
+  assert.strictEqual(parseArmyChange(save({ additions: [{ unitTypeId: 'knight', slotIndex: 1.5, upgrades: [] }] })), null);
+  assert.strictEqual(parseArmyChange(save({ removals: ['k1', 'k1'] })), null);
+  assert.strictEqual(parseArmyChange(save({ removals: ['k1'], upgrades: [{ instanceId: 'k1', upgrades: [] }] })), null);
+  assert.ok(parseArmyChange(save({ additions: [{ unitTypeId: 'Knight', slotIndex: 3, upgrades: [upgradeId] }] })));
+});
+
+test('Prices come from the server: purchases, new upgrades only and full refunds', () => {
+  const request = parseArmyChange(
+    save({
+      removals: ['k1'],
+      additions: [{ unitTypeId: 'archer', slotIndex: 2, upgrades: ['bogus'] }],
+      upgrades: [{ instanceId: 'k2', upgrades: [upgradeId] }],
+      price: 0
+    })
+  );
+  assert.ok(request);
+  const priced = priceArmyChange(request, owned());
+  assert.ok(priced);
+  assert.deepStrictEqual(priced.entries, [
+    { amount: -archerCost, reason: 'unit_purchase' },
+    { amount: -upgradeCost, reason: 'upgrade_purchase' },
+    { amount: knightCost + upgradeCost, reason: 'unit_refund' }
+  ]);
+  assert.deepStrictEqual(priced.additions, [{ unitTypeId: 'archer', slotIndex: 2, upgrades: [] }]);
+  assert.deepStrictEqual(priced.upgrades, [{ instanceId: 'k2', upgrades: [upgradeId] }]);
+
+  // Re-sending an upgrade the unit already has costs nothing
+  const resent = priceArmyChange(parseArmyChange(save({ upgrades: [{ instanceId: 'k1', upgrades: [upgradeId] }] }))!, owned());
+  assert.deepStrictEqual(resent?.entries, []);
+  assert.strictEqual(priceArmyChange(parseArmyChange(save({ removals: ['someone-elses'] }))!, owned()), null);
+});
+
+test('An army change is charged once and never past the wallet', async () => {
+  const shop = createLocalArmyShop({ 'player-1': owned() }, { 'player-1': archerCost });
+  const buy = (changeId: string) =>
+    priceArmyChange(
+      parseArmyChange(save({ changeId, additions: [{ unitTypeId: 'archer', slotIndex: 2, upgrades: [] }] }))!,
+      owned()
+    )!;
+
+  assert.deepStrictEqual(await shop.apply('player-1', buy('save-1')), { ok: true, balance: 0 });
+  assert.deepStrictEqual(await shop.apply('player-1', buy('save-1')), { ok: false, reason: 'already_applied' });
+  assert.deepStrictEqual(await shop.apply('player-1', buy('save-2')), { ok: false, reason: 'not_enough_credits' });
+  assert.deepStrictEqual(
+    shop.entries.map(({ amount, reason, referenceId }) => ({ amount, reason, referenceId })),
+    [{ amount: -archerCost, reason: 'unit_purchase', referenceId: 'save-1' }]
+  );
+
+  const sell = priceArmyChange(parseArmyChange(save({ changeId: 'save-3', removals: ['k2'] }))!, owned())!;
+  assert.deepStrictEqual(await shop.apply('player-2', sell), { ok: false, reason: 'not_owned' });
+  assert.deepStrictEqual(await shop.apply('player-1', sell), { ok: true, balance: knightCost });
+});
@@ -0,0 +1,157 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { createLocalRoster } from '../server/src/armyRoster';
+import { checkOwnership, validateArmy } from '../shared/armyValidation';
+import { getDeploymentArea } from '../shared/deployment';
+import { BEHAVIOR_SCHEMA_VERSION, buildGddUnit } from '../shared/gddUnits';
+import { CURRENT_RULESET, getRuleset } from '../shared/ruleset';
+import { area, unit } from './armyFixtures';
+
+const codes = (errors: { code: string }[]) => errors.map((error) => error.code);
+
+test('A valid army is rebuilt from the unit definitions whatever stats it arrives with', () => {
+  const tampered = {
+    ...unit('k1', 'knight', 10, 1),
+    hp: 99,
+    damage: 99,
+    defense: 99,
+    currentHp: 99,
+    upgrades: ['damage' as const],
+    xp: 500
+  };
+
+  const { army, errors } = validateArmy([tampered], CURRENT_RULESET, area);
+
+  assert.deepStrictEqual(errors, []);
+  assert.strictEqual(army[0].hp, buildGddUnit('knight').hp);
+  assert.strictEqual(army[0].damage, buildGddUnit('knight').damage);
+  assert.strictEqual(army[0].currentHp, undefined);
+  // Without a roster to vouch for them, claimed upgrades and experience count for nothing
+  assert.deepStrictEqual(army[0].upgrades, []);
+  assert.strictEqual(army[0].xp, 0);
+  assert.strictEqual(army[0].behaviorConfig?.version, BEHAVIOR_SCHEMA_VERSION);
+});
+
+test('Strategy rules reach the engine only with known conditions and actions', () => {
+  const scripted = {
+    ...unit('k1', 'knight', 10, 1),
+    strategyRules: [
+      { id: 'r1', unitId: 'knight', condition: 'Enemy in range', action: 'constructor' },
+      { id: 'r2', unitId: 'knight', condition: 'Enemy in range', action: 'Hold position' }
+    ]
+  };
+
+  const { army, errors } = validateArmy([scripted], CURRENT_RULESET, area);
+
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(army[0].strategyRules, [
+    { id: 'r2', unitId: 'knight', condition: 'Enemy in range', action: 'Hold position' }
+  ]);
+});
+
+test('Unknown units, supply over the cap and bad behaviors are reported per problem', () => {
+  const giants = [0, 1, 2, 3, 4].map((col) => unit(`g${col}`, 'giant', 11, col));
+  assert.deepStrictEqual(codes(validateArmy(giants, CURRENT_RULESET, area).errors), ['over_supply']);
+
+  const dragon = { ...unit('d1', 'knight', 11, 0), id: 'dragon' };
+  const { army, errors } = validateArmy([dragon], CURRENT_RULESET, area);
+  assert.deepStrictEqual(errors, [{ code: 'unknown_unit', message: 'd1 is an unknown unit type "dragon"', instanceId: 'd1' }]);
+  // Nothing unvalidated is handed back alongside the errors
+  assert.deepStrictEqual(army, []);
+
+  const confused = { ...unit('k1', 'knight', 11, 0), behaviorConfig: { version: BEHAVIOR_SCHEMA_VERSION, priority: 'shooting' as const } };
+  assert.deepStrictEqual(codes(validateArmy([confused], CURRENT_RULESET, area).errors), ['invalid_behavior']);
+  assert.deepStrictEqual(codes(validateArmy([], CURRENT_RULESET, area).errors), ['empty_army']);
+});
+
+test('Units must be inside the deployment area, on their own tile and listed once', () => {
+  const zoned = getDeploymentArea(getRuleset('v1.0.0')!);
+  const army = [unit('r1', 'recruit', 3, 0), unit('r2', 'recruit', 11, 6), unit('r3', 'recruit', 11, 1), unit('r4', 'recruit', 11, 1), unit('r3', 'recruit', 10, 0)];
+
+  const { errors } = validateArmy(army, getRuleset('v1.0.0')!, zoned);
+
+  assert.deepStrictEqual(codes(errors), ['out_of_bounds', 'out_of_bounds', 'overlapping_units', 'duplicate_unit']);
+  assert.deepStrictEqual(errors.map((error) => error.instanceId), ['r1', 'r2', 'r4', 'r3']);
+});
+
+test('Malformed armies and units are reported instead of throwing', () => {
+  assert.deepStrictEqual(codes(validateArmy({ k1: 'knight' }, CURRENT_RULESET, area).errors), ['malformed_army']);
+  assert.deepStrictEqual(codes(validateArmy(null, CURRENT_RULESET, area).errors), ['malformed_army']);
+
+  const army = [
+    { ...unit('k1', 'knight', 10, 1), position: undefined },
+    { ...unit('k2', 'knight', 10, 2), position: null },
+    { ...unit('k3', 'knight', 10, 3), position: { row: '10', col: 3 } },
+    null,
+    { ...unit('k4', 'knight', 10, 4), id: 'constructor' },
+    { ...unit('k5', 'knight', 10, 5), upgrades: 'damage', selectedBehaviors: 'Aggressive', behaviorConfig: 7 }
+  ];
+
+  const { army: validated, errors } = validateArmy(army, CURRENT_RULESET, area);
+
+  assert.deepStrictEqual(validated, []);
+  assert.deepStrictEqual(
+    errors.map((error) => [error.code, error.instanceId]),
+    [
+      ['out_of_bounds', 'k1'],
+      ['out_of_bounds', 'k2'],
+      ['out_of_bounds', 'k3'],
+      ['malformed_unit', undefined],
+      ['unknown_unit', 'k4']
+    ]
+  );
+});
+
+test('Only the fields a player chooses survive validation', () => {
+  const padded = {
+    ...unit('k1', 'knight', 10, 1),
+    upgrades: 'damage',
+    statusEffects: [{ type: 'slowed', turnsRemaining: 99 }],
+    team: 'enemy',
+    isAdmin: true
+  };
+
+  const { army, errors } = validateArmy([padded], CURRENT_RULESET, area);
+
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(Object.keys(army[0]).sort(), [
+    ...Object.keys(buildGddUnit('knight')),
+    'behaviorConfig',
+    'instanceId',
+    'position',
+    'strategyRules',
+    'team',
+    'upgrades',
+    'xp'
+  ].sort());
+  assert.strictEqual(army[0].team, 'player');
+  assert.deepStrictEqual(army[0].upgrades, []);
+});
+
+test('Free placement still refuses units on the enemy back row', () => {
+  const { errors } = validateArmy([unit('r1', 'recruit', 0, 0), unit('r2', 'recruit', 1, 0)], CURRENT_RULESET, area);
+
+  assert.deepStrictEqual(errors.map((error) => [error.code, error.instanceId]), [['out_of_bounds', 'r1']]);
+});
+
+test('Ownership comes from the roster, which also supplies upgrades and experience', async () => {
+  const roster = createLocalRoster({
+    'player-1': [
+      { instanceId: 'k1', unitTypeId: 'knight', upgrades: ['shield', 'range'], xp: 70 },
+      { instanceId: 'a1', unitTypeId: 'archer', upgrades: [], xp: 0 }
+    ]
+  });
+  const claimed = { ...unit('k1', 'knight', 11, 0), upgrades: ['damage' as const], xp: 500 };
+
+  const owned = checkOwnership([claimed], await roster.ownedUnits('player-1'));
+  assert.deepStrictEqual(owned.errors, []);
+  // Knights cannot take a range upgrade
+  assert.deepStrictEqual(owned.army[0].upgrades, ['shield']);
+  assert.strictEqual(owned.army[0].xp, 70);
+
+  const borrowed = checkOwnership([claimed], await roster.ownedUnits('player-2'));
+  assert.deepStrictEqual(codes(borrowed.errors), ['not_owned']);
+
+  const relabelled = checkOwnership([{ ...unit('a1', 'giant', 11, 1) }], await roster.ownedUnits('player-1'));
+  assert.deepStrictEqual(codes(relabelled.errors), ['not_owned']);
+});
@@ -0,0 +1,896 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import {
+  advanceBattleTick,
+  awardBattleXp,
+  buildEnemyArmy,
+  initializeBattle,
+  luckyDraw,
+  summarizeBattle
+} from '../src/engine/battleEngine';
+import { buildGddUnit, convertLegacyBehaviors, GDD_UNIT_IDS, getUnitPattern } from '../shared/gddUnits';
+import type { GddUnitId } from '../shared/gddUnits';
+import type { BattleMap, TerrainTile } from '../shared/battleMaps';
+import { CURRENT_RULESET, getRuleset } from '../shared/ruleset';
+import type { Ruleset } from '../shared/ruleset';
+import type { PlacedUnit, Position } from '../src/types';
+
+const place = (
+  id: GddUnitId,
+  team: PlacedUnit['team'],
+  position: Position,
+  instanceId: string,
+  behaviors: string[] = []
+): PlacedUnit => {
+  const { config, errors } = convertLegacyBehaviors(id, behaviors);
+  assert.deepStrictEqual(errors, [], `${instanceId} behaviors should be valid`);
+  return {
+    ...buildGddUnit(id),
+    instanceId,
+    team,
+    position,
+    behaviorConfig: config
+  };
+};
+
+const findUnit = (units: PlacedUnit[], instanceId: string): PlacedUnit => {
+  const unit = units.find((candidate) => candidate.instanceId === instanceId);
+  assert.ok(unit, `${instanceId} should be on the board`);
+  return unit;
+};
+
+test('Giant strikes the primary tile of its selected arc', () => {
+  const units = [
+    place('giant', 'player', { row: 6, col: 2 }, 'giant', ['Attack arc: Right']),
+    place('beast', 'enemy', { row: 5, col: 1 }, 'left'),
+    place('beast', 'enemy', { row: 5, col: 2 }, 'center'),
+    place('beast', 'enemy', { row: 5, col: 3 }, 'right')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 1);
+  assert.strictEqual(result.hitEvents[0].targetId, 'right');
+  assert.deepStrictEqual(result.hitEvents[0].targetPosition, { row: 5, col: 3 });
+  assert.strictEqual(findUnit(result.units, 'right').currentHp, 4);
+  assert.strictEqual(findUnit(result.units, 'center').currentHp, 6);
+});
+
+test('Giant falls back to another occupied arc tile when the primary is empty', () => {
+  const units = [
+    place('giant', 'player', { row: 6, col: 2 }, 'giant', ['Attack arc: Center']),
+    place('beast', 'enemy', { row: 5, col: 1 }, 'left'),
+    place('beast', 'enemy', { row: 5, col: 3 }, 'right')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  // Both fallbacks are equally close to the primary tile, so the left one wins the tie
+  assert.strictEqual(result.hitEvents.length, 1);
+  assert.strictEqual(result.hitEvents[0].targetId, 'left');
+  assert.strictEqual(result.hitEvents[0].attackType, 'melee');
+  assert.deepStrictEqual(findUnit(result.units, 'giant').position, { row: 6, col: 2 });
+});
+
+test('Giant prefers the closest fallback to its primary tile', () => {
+  const units = [
+    place('giant', 'enemy', { row: 3, col: 2 }, 'giant', ['Attack arc: Left']),
+    place('knight', 'player', { row: 4, col: 2 }, 'center'),
+    place('knight', 'player', { row: 4, col: 3 }, 'right')
+  ];
+
+  const result = advanceBattleTick(units, 'enemy', 1);
+
+  assert.strictEqual(result.hitEvents.length, 1);
+  assert.strictEqual(result.hitEvents[0].targetId, 'center');
+  assert.deepStrictEqual(result.hitEvents[0].attackerPosition, { row: 3, col: 2 });
+});
+
+test('Giant advances when its arc holds no enemies', () => {
+  const units = [
+    place('giant', 'player', { row: 6, col: 0 }, 'giant', ['Attack arc: Left']),
+    place('beast', 'enemy', { row: 5, col: 2 }, 'outside-arc')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 0);
+  assert.deepStrictEqual(findUnit(result.units, 'giant').position, { row: 5, col: 0 });
+});
+
+const paralysisTurns = (unit: PlacedUnit) =>
+  unit.statusEffects?.find((effect) => effect.type === 'paralyzed')?.turnsRemaining ?? 0;
+
+test('Mage paralyzes the enemy in front for three of its turns without dealing damage', () => {
+  const units = [
+    place('mage', 'player', { row: 6, col: 2 }, 'mage'),
+    place('knight', 'enemy', { row: 5, col: 2 }, 'knight')
+  ];
+
+  const first = advanceBattleTick(units, 'player', 1);
+  assert.strictEqual(first.hitEvents.length, 0);
+  assert.strictEqual(first.statusEvents.length, 1);
+  assert.strictEqual(first.statusEvents[0].targetId, 'knight');
+  assert.strictEqual(first.statusEvents[0].turns, 3);
+  assert.strictEqual(first.statusEvents[0].refreshed, false);
+  assert.strictEqual(findUnit(first.units, 'knight').currentHp, 2);
+  assert.strictEqual(paralysisTurns(findUnit(first.units, 'knight')), 3);
+
+  // The knight idles on each of its next three turns instead of striking the mage
+  let state = first;
+  for (let enemyTurn = 0; enemyTurn < 3; enemyTurn += 1) {
+    state = advanceBattleTick(state.units, 'enemy', state.turnNumber);
+    assert.strictEqual(state.hitEvents.length, 0);
+    assert.deepStrictEqual(findUnit(state.units, 'knight').position, { row: 5, col: 2 });
+    assert.strictEqual(paralysisTurns(findUnit(state.units, 'knight')), 2 - enemyTurn);
+  }
+
+  const recovered = advanceBattleTick(state.units, 'enemy', state.turnNumber);
+  assert.strictEqual(recovered.hitEvents.length, 1);
+  assert.strictEqual(recovered.hitEvents[0].attackerId, 'knight');
+});
+
+test('Re-paralyzing refreshes the timer instead of stacking', () => {
+  const knight = place('knight', 'enemy', { row: 5, col: 2 }, 'knight');
+  knight.statusEffects = [{ type: 'paralyzed', turnsRemaining: 1, sourceId: 'mage-a' }];
+  const units = [
+    place('mage', 'player', { row: 6, col: 2 }, 'mage-b'),
+    knight
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+  const effects = findUnit(result.units, 'knight').statusEffects ?? [];
+
+  assert.strictEqual(result.statusEvents[0].refreshed, true);
+  assert.strictEqual(effects.filter((effect) => effect.type === 'paralyzed').length, 1);
+  assert.strictEqual(paralysisTurns(findUnit(result.units, 'knight')), 3);
+});
+
+test('Mage sidesteps toward its preferred side on the turn after paralyzing', () => {
+  const units = [
+    place('mage', 'player', { row: 6, col: 2 }, 'mage', ['Sidestep priority: Right']),
+    place('knight', 'enemy', { row: 5, col: 2 }, 'knight')
+  ];
+
+  const paralyzed = advanceBattleTick(units, 'player', 1);
+  const enemyIdle = advanceBattleTick(paralyzed.units, 'enemy', paralyzed.turnNumber);
+  const sidestep = advanceBattleTick(enemyIdle.units, 'player', enemyIdle.turnNumber);
+
+  assert.deepStrictEqual(findUnit(sidestep.units, 'mage').position, { row: 6, col: 3 });
+  assert.strictEqual(sidestep.statusEvents.length, 0);
+});
+
+test('Zombie sidesteps toward its preferred side before moving forward', () => {
+  const units = [place('zombie', 'player', { row: 8, col: 2 }, 'zombie', ['Sidestep right first'])];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.deepStrictEqual(findUnit(result.units, 'zombie').position, { row: 8, col: 3 });
+});
+
+test('Zombie moves forward when its sidestep is blocked by an ally', () => {
+  const units = [
+    place('zombie', 'player', { row: 8, col: 2 }, 'zombie', ['Sidestep left first']),
+    place('knight', 'player', { row: 8, col: 1 }, 'ally')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.deepStrictEqual(findUnit(result.units, 'zombie').position, { row: 7, col: 2 });
+});
+
+test('Zombie attacks an enemy blocking its sidestep', () => {
+  const units = [
+    place('zombie', 'player', { row: 8, col: 2 }, 'zombie', ['Sidestep left first']),
+    place('beast', 'enemy', { row: 8, col: 1 }, 'beast')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 1);
+  assert.strictEqual(result.hitEvents[0].targetId, 'beast');
+  assert.strictEqual(findUnit(result.units, 'beast').currentHp, 3);
+});
+
+test('Zombie idles when allies block every path', () => {
+  const units = [
+    place('zombie', 'player', { row: 8, col: 0 }, 'zombie', ['Sidestep left first']),
+    place('knight', 'player', { row: 7, col: 0 }, 'ally-front'),
+    place('beast', 'enemy', { row: 8, col: 1 }, 'enemy-right')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  // The left edge leaves no sidestep, the ally blocks forward, and the enemy on the
+  // other side is not part of the Zombie's pattern
+  assert.deepStrictEqual(findUnit(result.units, 'zombie').position, { row: 8, col: 0 });
+  assert.strictEqual(result.hitEvents.filter((event) => event.attackerId === 'zombie').length, 0);
+});
+
+test('Front-row units resolve first and later attacks on a fallen enemy are dropped', () => {
+  const frontArcher = place('archer', 'player', { row: 8, col: 2 }, 'front-archer');
+  const backArcher = place('archer', 'player', { row: 9, col: 3 }, 'back-archer');
+  const recruit = place('recruit', 'enemy', { row: 6, col: 2 }, 'recruit');
+
+  for (const units of [[frontArcher, backArcher, recruit], [recruit, backArcher, frontArcher]]) {
+    const result = advanceBattleTick(units, 'player', 1);
+    assert.strictEqual(result.hitEvents.length, 1);
+    assert.strictEqual(result.hitEvents[0].attackerId, 'front-archer');
+    assert.strictEqual(result.hitEvents[0].didKill, true);
+  }
+});
+
+test('Army serialization order does not change the timeline', () => {
+  const army = [
+    place('knight', 'player', { row: 7, col: 1 }, 'p-knight'),
+    place('archer', 'player', { row: 9, col: 2 }, 'p-archer'),
+    place('recruit', 'player', { row: 8, col: 3 }, 'p-recruit', ['Opportunistic']),
+    place('beast', 'enemy', { row: 3, col: 1 }, 'e-beast'),
+    place('recruit', 'enemy', { row: 4, col: 2 }, 'e-recruit'),
+    place('zombie', 'enemy', { row: 2, col: 3 }, 'e-zombie')
+  ];
+
+  const simulate = (units: PlacedUnit[]) => {
+    const state = initializeBattle(units);
+    const frames = [];
+    let current: { units: PlacedUnit[]; team: PlacedUnit['team']; turn: number } = {
+      units: state.units,
+      team: 'player',
+      turn: 1
+    };
+    for (let tick = 0; tick < 12; tick += 1) {
+      const result = advanceBattleTick(current.units, current.team, current.turn);
+      frames.push(result);
+      current = { units: result.units, team: result.currentTeam, turn: result.turnNumber };
+    }
+    return frames;
+  };
+
+  assert.deepStrictEqual(simulate([...army].reverse()), simulate(army));
+});
+
+test('The same seed always draws the same starting team', () => {
+  const units = [place('knight', 'player', { row: 8, col: 1 }, 'p'), place('knight', 'enemy', { row: 3, col: 1 }, 'e')];
+
+  const first = initializeBattle(units, { seed: 1234 });
+  const replay = initializeBattle([...units].reverse(), { seed: 1234 });
+
+  assert.strictEqual(first.seed, 1234);
+  assert.strictEqual(replay.currentTeam, first.currentTeam);
+  assert.deepStrictEqual(replay.units, first.units);
+  assert.strictEqual(first.currentTeam, luckyDraw(1234));
+
+  const draws = new Set(Array.from({ length: 32 }, (_, seed) => luckyDraw(seed)));
+  assert.strictEqual(draws.size, 2, 'both teams should be reachable across seeds');
+});
+
+test('An explicit starting team overrides the draw but keeps the seed', () => {
+  const units = [place('knight', 'player', { row: 8, col: 1 }, 'p')];
+  const opposite = luckyDraw(99) === 'player' ? 'enemy' : 'player';
+
+  const state = initializeBattle(units, { seed: 99, startingTeam: opposite });
+
+  assert.strictEqual(state.currentTeam, opposite);
+  assert.strictEqual(state.seed, 99);
+});
+
+test('buildEnemyArmy assigns deterministic instance ids', () => {
+  const formation = [{ row: 0, col: 1 }, { row: 1, col: 2 }];
+  const first = buildEnemyArmy(buildGddUnit('knight'), formation);
+  const second = buildEnemyArmy(buildGddUnit('knight'), formation);
+
+  assert.deepStrictEqual(first.map((unit) => unit.instanceId), ['enemy-knight-0', 'enemy-knight-1']);
+  assert.deepStrictEqual(second, first);
+});
+
+test('Killing the last enemy ends the battle by elimination', () => {
+  const units = [
+    place('knight', 'player', { row: 6, col: 2 }, 'knight'),
+    place('recruit', 'enemy', { row: 5, col: 2 }, 'recruit')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.winner, 'player');
+  assert.strictEqual(result.endReason, 'elimination');
+});
+
+test('Reaching the back row is reported as a breach', () => {
+  const units = [
+    place('recruit', 'player', { row: 1, col: 0 }, 'runner'),
+    place('knight', 'enemy', { row: 3, col: 4 }, 'knight')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.winner, 'player');
+  assert.strictEqual(result.endReason, 'breach');
+});
+
+test('Battles in progress report no end reason and reset the quiet counter', () => {
+  const units = [
+    place('knight', 'player', { row: 8, col: 2 }, 'p-knight'),
+    place('knight', 'enemy', { row: 3, col: 2 }, 'e-knight')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1, 1);
+
+  assert.strictEqual(result.winner, null);
+  assert.strictEqual(result.endReason, null);
+  assert.strictEqual(result.quietTurns, 0);
+});
+
+test('Battle summary tallies kills, damage and shield absorption per team', () => {
+  const units = [
+    place('knight', 'player', { row: 6, col: 2 }, 'p-knight'),
+    place('knight', 'enemy', { row: 5, col: 2 }, 'e-knight'),
+    place('recruit', 'enemy', { row: 3, col: 4 }, 'e-recruit')
+  ];
+
+  const initial = initializeBattle(units, { startingTeam: 'player' });
+  const frames = [advanceBattleTick(initial.units, 'player', 1)];
+  frames.push(advanceBattleTick(frames[0].units, 'enemy', frames[0].turnNumber, frames[0].quietTurns));
+  const summary = summarizeBattle(frames);
+
+  // Each knight swing: 3 dmg into 1 shield -> 1 absorbed, 2 overflow - 2 defense = 0 HP
+  assert.deepStrictEqual(summary.teams.player, { kills: 0, damageDealt: 0, damageAbsorbed: 1 });
+  assert.deepStrictEqual(summary.teams.enemy, { kills: 0, damageDealt: 0, damageAbsorbed: 1 });
+
+  const third = advanceBattleTick(frames[1].units, 'player', frames[1].turnNumber, frames[1].quietTurns);
+  // Shield is gone now, so the player knight deals 3 - 2 defense = 1 HP
+  assert.strictEqual(summarizeBattle([...frames, third]).teams.player.damageDealt, 1);
+  assert.strictEqual(summary.reason, 'tickLimit');
+  assert.strictEqual(summary.winner, null);
+  assert.strictEqual(summary.totalTurns, 2);
+});
+
+test('Battle XP credits kills and damage to the attacker and rewards survivors', () => {
+  const units = [
+    place('knight', 'player', { row: 6, col: 2 }, 'knight'),
+    place('recruit', 'enemy', { row: 5, col: 2 }, 'recruit')
+  ];
+
+  const initial = initializeBattle(units, { startingTeam: 'player' });
+  const strike = advanceBattleTick(initial.units, 'player', 1);
+  // Frame 0 carries the starting lineup, as in the server timeline
+  const awards = awardBattleXp([{ ...strike, units: initial.units, hitEvents: [] }, strike]);
+  const knight = awards.find((award) => award.instanceId === 'knight');
+  const recruit = awards.find((award) => award.instanceId === 'recruit');
+
+  assert.ok(knight && recruit);
+  assert.strictEqual(knight.kills, 1);
+  assert.strictEqual(knight.damageDealt, strike.hitEvents[0].damageToHp);
+  assert.strictEqual(knight.survived, true);
+  assert.strictEqual(knight.xp, 10 + knight.damageDealt + 5);
+  assert.deepStrictEqual(
+    { kills: recruit.kills, survived: recruit.survived, xp: recruit.xp },
+    { kills: 0, survived: false, xp: 0 }
+  );
+});
+
+test('Battle summary names the breaching unit', () => {
+  const units = [
+    place('recruit', 'player', { row: 1, col: 0 }, 'runner'),
+    place('knight', 'enemy', { row: 3, col: 4 }, 'knight')
+  ];
+
+  const summary = summarizeBattle([advanceBattleTick(units, 'player', 1)]);
+
+  assert.strictEqual(summary.reason, 'breach');
+  assert.strictEqual(summary.winner, 'player');
+  assert.strictEqual(summary.breachUnitId, 'runner');
+  assert.strictEqual(summary.teams.player.kills, 0);
+});
+
+test('Archer swipes the adjacent front tile in melee', () => {
+  const units = [
+    place('archer', 'player', { row: 8, col: 2 }, 'archer'),
+    place('beast', 'enemy', { row: 7, col: 2 }, 'adjacent'),
+    place('recruit', 'enemy', { row: 6, col: 2 }, 'volley-zone')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 1);
+  assert.strictEqual(result.hitEvents[0].targetId, 'adjacent');
+  assert.strictEqual(result.hitEvents[0].attackType, 'melee');
+});
+
+test('Archer volleys into the 3x3 zone starting two tiles ahead', () => {
+  // Enemy archers advance toward higher rows: the zone spans rows 6-8, columns 1-3
+  for (const target of [{ row: 6, col: 1 }, { row: 8, col: 3 }]) {
+    const units = [
+      place('archer', 'enemy', { row: 4, col: 2 }, 'archer'),
+      place('knight', 'player', target, 'target')
+    ];
+
+    const result = advanceBattleTick(units, 'enemy', 1);
+
+    assert.strictEqual(result.hitEvents.length, 1, `should reach ${JSON.stringify(target)}`);
+    assert.strictEqual(result.hitEvents[0].attackType, 'ranged');
+  }
+});
+
+test('Archer is blind on the diagonals at distance one and beyond the volley zone', () => {
+  for (const blindSpot of [{ row: 7, col: 1 }, { row: 7, col: 3 }, { row: 3, col: 2 }, { row: 6, col: 4 }]) {
+    const units = [
+      place('archer', 'player', { row: 8, col: 2 }, 'archer'),
+      place('knight', 'enemy', blindSpot, 'target')
+    ];
+
+    const result = advanceBattleTick(units, 'player', 1);
+
+    assert.strictEqual(result.hitEvents.length, 0, `should not reach ${JSON.stringify(blindSpot)}`);
+    assert.deepStrictEqual(findUnit(result.units, 'archer').position, { row: 7, col: 2 });
+  }
+});
+
+test('Longshot upgrade lets an Archer volley one row past its base zone', () => {
+  const archer = { ...place('archer', 'player', { row: 8, col: 2 }, 'archer'), upgrades: ['range' as const] };
+  const units = [archer, place('knight', 'enemy', { row: 3, col: 2 }, 'target')];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 1);
+  assert.strictEqual(result.hitEvents[0].targetId, 'target');
+});
+
+test('Every strike tile in a unit pattern is executed by the engine', () => {
+  // Zombies only strike the tile they try to enter, which their own tests cover
+  for (const id of GDD_UNIT_IDS.filter((unitId) => unitId !== 'zombie')) {
+    const pattern = getUnitPattern(id);
+    for (const offset of [...pattern.melee, ...pattern.ranged]) {
+      const tile = { row: 8 - offset.forward, col: 2 + offset.lateral };
+      const units = [
+        place(id, 'player', { row: 8, col: 2 }, 'actor'),
+        place('beast', 'enemy', tile, 'target')
+      ];
+
+      const result = advanceBattleTick(units, 'player', 1);
+      const struckIds = [...result.hitEvents, ...result.statusEvents].map((event) => event.targetId);
+
+      assert.deepStrictEqual(struckIds, ['target'], `${id} should strike ${JSON.stringify(offset)}`);
+    }
+  }
+});
+
+test('Units never strike tiles outside their pattern', () => {
+  const units = [
+    place('knight', 'player', { row: 8, col: 2 }, 'knight'),
+    place('knight', 'player', { row: 7, col: 2 }, 'wall', []),
+    place('beast', 'enemy', { row: 9, col: 2 }, 'behind'),
+    place('beast', 'enemy', { row: 7, col: 3 }, 'diagonal')
+  ];
+  // Keep the wall in place so the knight stays blocked
+  units[1].statusEffects = [{ type: 'paralyzed', turnsRemaining: 2 }];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 0);
+  assert.deepStrictEqual(findUnit(result.units, 'knight').position, { row: 8, col: 2 });
+});
+
+test('Slow units act only on turns matching their speed', () => {
+  let units = [
+    place('giant', 'player', { row: 8, col: 2 }, 'giant'),
+    place('knight', 'player', { row: 9, col: 2 }, 'follower'),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  // Player turns are 1, 3 and 5; the speed-2 Giant acts on the first and third of them
+  const expectedGiantRows = [7, 7, 6];
+  for (const [index, turnNumber] of [1, 3, 5].entries()) {
+    units = advanceBattleTick(units, 'player', turnNumber).units;
+    assert.strictEqual(findUnit(units, 'giant').position.row, expectedGiantRows[index], `turn ${turnNumber}`);
+  }
+
+  // The knight never walks into the resting Giant's tile
+  assert.deepStrictEqual(findUnit(units, 'follower').position, { row: 7, col: 2 });
+});
+
+test('Stalemate waits out the slowest unit before declaring a frozen board', () => {
+  const units = [
+    place('giant', 'player', { row: 8, col: 0 }, 'giant'),
+    place('giant', 'enemy', { row: 2, col: 5 }, 'enemy-giant')
+  ];
+
+  // Both Giants rest on turns 3 and 4, so two quiet turns are not yet a full cycle
+  const resting = advanceBattleTick(units, 'player', 3, 1);
+  assert.strictEqual(resting.moves.length, 0);
+  assert.strictEqual(resting.endReason, null);
+
+  const frozen = advanceBattleTick(units, 'enemy', 4, 3);
+  assert.strictEqual(frozen.endReason, 'stalemate');
+});
+
+const paralyze = (unit: PlacedUnit): PlacedUnit => ({
+  ...unit,
+  statusEffects: [{ type: 'paralyzed', turnsRemaining: 3 }]
+});
+
+test('Sequential resolution lets the first unit claim a tile both wanted', () => {
+  const units = [
+    paralyze(place('knight', 'player', { row: 7, col: 1 }, 'wall-1')),
+    paralyze(place('knight', 'player', { row: 7, col: 3 }, 'wall-3')),
+    paralyze(place('knight', 'player', { row: 8, col: 0 }, 'wall-0')),
+    place('recruit', 'player', { row: 8, col: 1 }, 'left', ['Opportunistic']),
+    place('recruit', 'player', { row: 8, col: 3 }, 'right', ['Opportunistic']),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  // Both recruits sidestep into (8,2): simultaneous resolution drops both moves
+  const simultaneous = advanceBattleTick(units, 'player', 1);
+  assert.deepStrictEqual(findUnit(simultaneous.units, 'left').position, { row: 8, col: 1 });
+  assert.deepStrictEqual(findUnit(simultaneous.units, 'right').position, { row: 8, col: 3 });
+
+  // Sequentially the left recruit acts first and the right one sees the tile taken
+  const sequential = advanceBattleTick(units, 'player', 1, 0, 'sequential');
+  assert.deepStrictEqual(findUnit(sequential.units, 'left').position, { row: 8, col: 2 });
+  assert.deepStrictEqual(findUnit(sequential.units, 'right').position, { row: 8, col: 4 });
+});
+
+test('Sequential resolution retargets instead of striking a unit killed earlier in the turn', () => {
+  const preference = ['Target Preference: Weakest'];
+  const units = [
+    place('archer', 'player', { row: 8, col: 1 }, 'archer-1', preference),
+    place('archer', 'player', { row: 8, col: 3 }, 'archer-3', preference),
+    place('recruit', 'enemy', { row: 5, col: 2 }, 'recruit'),
+    place('beast', 'enemy', { row: 6, col: 2 }, 'beast')
+  ];
+
+  const simultaneous = advanceBattleTick(units, 'player', 1);
+  assert.deepStrictEqual(simultaneous.hitEvents.map((event) => event.targetId), ['recruit']);
+
+  const sequential = advanceBattleTick(units, 'player', 1, 0, 'sequential');
+  assert.deepStrictEqual(sequential.hitEvents.map((event) => event.targetId), ['recruit', 'beast']);
+});
+
+test('Sequential resolution keeps status timers applied during the turn', () => {
+  let units = [
+    place('mage', 'player', { row: 8, col: 2 }, 'mage'),
+    place('knight', 'enemy', { row: 7, col: 2 }, 'knight')
+  ];
+
+  units = advanceBattleTick(units, 'player', 1, 0, 'sequential').units;
+  units = advanceBattleTick(units, 'enemy', 2, 0, 'sequential').units;
+  units = advanceBattleTick(units, 'player', 3, 0, 'sequential').units;
+
+  assert.deepStrictEqual(findUnit(units, 'mage').position, { row: 8, col: 1 });
+  assert.strictEqual(paralysisTurns(findUnit(units, 'knight')), 2);
+});
+
+test('Action log records one entry per acting unit, including dropped moves', () => {
+  const units = [
+    paralyze(place('knight', 'player', { row: 7, col: 1 }, 'wall-1')),
+    paralyze(place('knight', 'player', { row: 7, col: 3 }, 'wall-3')),
+    paralyze(place('knight', 'player', { row: 8, col: 0 }, 'wall-0')),
+    place('recruit', 'player', { row: 8, col: 1 }, 'left', ['Opportunistic']),
+    place('recruit', 'player', { row: 8, col: 3 }, 'right', ['Opportunistic']),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  const { actions } = advanceBattleTick(units, 'player', 1);
+
+  assert.deepStrictEqual(
+    actions.map((action) => [action.unitId, action.kind, action.reason]),
+    [
+      ['wall-1', 'paralyzed', undefined],
+      ['wall-3', 'paralyzed', undefined],
+      ['wall-0', 'paralyzed', undefined],
+      ['left', 'blocked', 'collision'],
+      ['right', 'blocked', 'collision']
+    ]
+  );
+  const left = actions[3];
+  assert.strictEqual(left.planned, 'move');
+  assert.deepStrictEqual(left.from, { row: 8, col: 1 });
+  assert.deepStrictEqual(left.to, { row: 8, col: 2 });
+});
+
+test('Action log explains idles and attacks on units that already fell', () => {
+  const preference = ['Target Preference: Weakest'];
+  const volley = advanceBattleTick([
+    place('archer', 'player', { row: 8, col: 1 }, 'archer-1', preference),
+    place('archer', 'player', { row: 8, col: 3 }, 'archer-3', preference),
+    place('recruit', 'enemy', { row: 5, col: 2 }, 'recruit'),
+    place('beast', 'enemy', { row: 6, col: 2 }, 'beast')
+  ], 'player', 1);
+
+  assert.deepStrictEqual(volley.actions[0], {
+    unitId: 'archer-1',
+    team: 'player',
+    kind: 'attack',
+    from: { row: 8, col: 1 },
+    to: { row: 5, col: 2 },
+    targetId: 'recruit',
+    attackType: 'ranged'
+  });
+  assert.strictEqual(volley.actions[1].kind, 'blocked');
+  assert.strictEqual(volley.actions[1].planned, 'attack');
+  assert.strictEqual(volley.actions[1].reason, 'targetDead');
+
+  const waiting = advanceBattleTick([
+    place('giant', 'player', { row: 7, col: 0 }, 'giant'),
+    paralyze(place('knight', 'player', { row: 7, col: 4 }, 'wall')),
+    place('knight', 'player', { row: 8, col: 4 }, 'follower'),
+    place('knight', 'enemy', { row: 0, col: 2 }, 'enemy')
+  ], 'player', 3);
+
+  const reasons = Object.fromEntries(waiting.actions.map((action) => [action.unitId, action.reason ?? action.kind]));
+  assert.deepStrictEqual(reasons, { giant: 'resting', wall: 'paralyzed', follower: 'allyAhead' });
+});
+
+const withRules = (unit: PlacedUnit, ...rules: [string, string][]): PlacedUnit => ({
+  ...unit,
+  strategyRules: rules.map(([condition, action], index) => ({
+    id: `rule-${index}`,
+    unitId: unit.id,
+    condition,
+    action
+  }))
+});
+
+test('Strategy rules override the default behavior when their condition holds', () => {
+  const units = [
+    withRules(
+      { ...place('beast', 'player', { row: 8, col: 2 }, 'wounded'), currentHp: 2 },
+      ['HP below 40%', 'Retreat 2 tiles']
+    ),
+    withRules(place('knight', 'player', { row: 8, col: 4 }, 'guard'), ['Enemy in range', 'Hold position']),
+    place('knight', 'enemy', { row: 7, col: 2 }, 'enemy-2'),
+    place('knight', 'enemy', { row: 7, col: 4 }, 'enemy-4')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 0);
+  assert.deepStrictEqual(findUnit(result.units, 'wounded').position, { row: 10, col: 2 });
+  assert.deepStrictEqual(
+    result.actions.map((action) => [action.unitId, action.kind, action.reason, action.ruleId]),
+    [
+      ['wounded', 'move', undefined, 'rule-0'],
+      ['guard', 'idle', 'holdPosition', 'rule-0']
+    ]
+  );
+});
+
+test('Units without a matching rule keep their default behavior', () => {
+  const units = [
+    withRules(place('knight', 'player', { row: 8, col: 2 }, 'knight'), ['HP below 40%', 'Retreat 2 tiles']),
+    place('knight', 'enemy', { row: 7, col: 2 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.deepStrictEqual(result.hitEvents.map((event) => event.attackerId), ['knight']);
+  assert.strictEqual(result.actions[0].ruleId, undefined);
+});
+
+test('Rule actions that cannot be carried out leave the unit idle', () => {
+  const units = [
+    withRules(place('knight', 'player', { row: 8, col: 2 }, 'knight'), ['Path blocked', 'Retreat 2 tiles']),
+    paralyze(place('knight', 'player', { row: 9, col: 2 }, 'behind')),
+    place('knight', 'enemy', { row: 7, col: 2 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.strictEqual(result.hitEvents.length, 0);
+  assert.strictEqual(result.actions[0].reason, 'ruleUnavailable');
+});
+
+test('A rule naming an object prototype key is ignored instead of crashing the battle', () => {
+  const units = [
+    withRules(place('knight', 'player', { row: 8, col: 2 }, 'knight'), ['Enemy in range', 'constructor']),
+    place('knight', 'enemy', { row: 7, col: 2 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.deepStrictEqual(result.hitEvents.map((event) => event.attackerId), ['knight']);
+  assert.strictEqual(result.actions[0].ruleId, undefined);
+});
+
+test('Swap with ally trades places with the ally ahead', () => {
+  const units = [
+    withRules(place('knight', 'player', { row: 8, col: 2 }, 'back'), ['Path blocked', 'Swap with ally']),
+    paralyze(place('recruit', 'player', { row: 7, col: 2 }, 'front')),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1);
+
+  assert.deepStrictEqual(findUnit(result.units, 'back').position, { row: 7, col: 2 });
+  assert.deepStrictEqual(findUnit(result.units, 'front').position, { row: 8, col: 2 });
+});
+
+const terrainMap = (tiles: TerrainTile[]): BattleMap => ({ id: 'test', name: 'Test', tiles });
+
+test('Rocks block movement like the board edge', () => {
+  const map = terrainMap([{ row: 7, col: 2, type: 'rock' }]);
+  const units = [
+    place('knight', 'player', { row: 8, col: 2 }, 'knight'),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', map);
+
+  assert.deepStrictEqual(findUnit(result.units, 'knight').position, { row: 8, col: 2 });
+  const [action] = result.actions;
+  assert.strictEqual(action.kind, 'idle');
+  assert.strictEqual(action.reason, 'noPath');
+});
+
+test('Armies walled off by terrain end in a stalemate', () => {
+  const map = terrainMap([
+    { row: 7, col: 2, type: 'rock' },
+    { row: 4, col: 2, type: 'rock' }
+  ]);
+  let state = initializeBattle(
+    [
+      place('knight', 'player', { row: 8, col: 2 }, 'knight'),
+      place('knight', 'enemy', { row: 3, col: 2 }, 'enemy')
+    ],
+    { startingTeam: 'player', seed: 1, map }
+  );
+  let quietTurns = 0;
+  let result = advanceBattleTick(state.units, state.currentTeam, state.turnNumber, quietTurns, state.resolutionMode, state.map);
+  for (let tick = 0; tick < 10 && !result.endReason; tick += 1) {
+    quietTurns = result.quietTurns;
+    state = { ...state, units: result.units, currentTeam: result.currentTeam, turnNumber: result.turnNumber };
+    result = advanceBattleTick(state.units, state.currentTeam, state.turnNumber, quietTurns, state.resolutionMode, state.map);
+  }
+
+  assert.strictEqual(result.endReason, 'stalemate');
+  assert.strictEqual(result.winner, null);
+  assert.strictEqual(result.turnNumber, 3);
+});
+
+const rockRow = (row: number): TerrainTile[] =>
+  Array.from({ length: CURRENT_RULESET.board.cols }, (_, col) => ({ row, col, type: 'rock' as const }));
+
+// Rocks around a corner tile, towards the board along rowStep and colStep
+const cornerBox = (row: number, col: number, rowStep: number, colStep: number): TerrainTile[] => [
+  { row: row + rowStep, col, type: 'rock' },
+  { row: row + rowStep, col: col + colStep, type: 'rock' },
+  { row, col: col + colStep, type: 'rock' }
+];
+
+test('A side that can neither strike nor reach the far row loses while the other still can', () => {
+  // The Mage deals no damage and is boxed into its corner; the Knight can still reach the far row
+  const map = terrainMap(cornerBox(11, 0, -1, 1));
+  const units = [
+    place('mage', 'player', { row: 11, col: 0 }, 'mage'),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'knight')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', map);
+
+  assert.strictEqual(result.winner, 'enemy');
+  assert.strictEqual(result.endReason, 'noPathToWin');
+});
+
+test('The lock is checked for each side, whichever team just moved', () => {
+  const lastCol = CURRENT_RULESET.board.cols - 1;
+  const map = terrainMap(cornerBox(0, lastCol, 1, -1));
+  const units = [
+    place('knight', 'player', { row: 11, col: 0 }, 'knight'),
+    place('mage', 'enemy', { row: 0, col: lastCol }, 'mage')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', map);
+
+  assert.strictEqual(result.winner, 'player');
+  assert.strictEqual(result.endReason, 'noPathToWin');
+});
+
+test('Units that cannot strike keep a path while the far row is reachable, and paralysis wears off', () => {
+  const open = [place('mage', 'player', { row: 8, col: 2 }, 'mage'), place('knight', 'enemy', { row: 0, col: 5 }, 'knight')];
+  assert.strictEqual(advanceBattleTick(open, 'player', 1).endReason, null);
+
+  // Paralyzed, but the Knight can still walk up and strike once it recovers
+  const dazed = [paralyze(place('knight', 'player', { row: 8, col: 2 }, 'knight')), place('mage', 'enemy', { row: 2, col: 5 }, 'mage')];
+  assert.strictEqual(advanceBattleTick(dazed, 'player', 1).endReason, null);
+});
+
+test('A damaging unit walled in by rocks has no path to win', () => {
+  // The Knight can neither leave its corner nor reach a tile an enemy could ever stand on
+  const map = terrainMap(cornerBox(11, 0, -1, 1));
+  const units = [
+    place('knight', 'player', { row: 11, col: 0 }, 'knight'),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', map);
+
+  assert.strictEqual(result.winner, 'enemy');
+  assert.strictEqual(result.endReason, 'noPathToWin');
+
+  // With both sides behind a wall of rocks neither has a path, so the quiet-board check ends it instead
+  const walled = [place('knight', 'player', { row: 8, col: 2 }, 'knight'), place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')];
+  assert.strictEqual(advanceBattleTick(walled, 'player', 1, 0, 'simultaneous', terrainMap(rockRow(5))).endReason, null);
+});
+
+test('Walls stop arrows while rocks are shot over', () => {
+  const shootAcross = (type: TerrainTile['type']) =>
+    advanceBattleTick(
+      [
+        place('archer', 'player', { row: 8, col: 2 }, 'archer'),
+        place('knight', 'enemy', { row: 6, col: 2 }, 'target')
+      ],
+      'player',
+      1,
+      0,
+      'simultaneous',
+      terrainMap([{ row: 7, col: 2, type }])
+    );
+
+  const walled = shootAcross('wall');
+  assert.strictEqual(walled.hitEvents.length, 0);
+  assert.deepStrictEqual(findUnit(walled.units, 'archer').position, { row: 8, col: 2 });
+
+  const overRock = shootAcross('rock');
+  assert.strictEqual(overRock.hitEvents.length, 1);
+  assert.strictEqual(overRock.hitEvents[0].attackType, 'ranged');
+});
+
+test('Mud holds a unit in place through its next turn', () => {
+  const map = terrainMap([{ row: 7, col: 2, type: 'mud' }]);
+  const units = [
+    place('knight', 'player', { row: 8, col: 2 }, 'knight'),
+    place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')
+  ];
+
+  const entered = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', map);
+  assert.deepStrictEqual(findUnit(entered.units, 'knight').position, { row: 7, col: 2 });
+
+  const enemyTurn = advanceBattleTick(entered.units, 'enemy', 2, entered.quietTurns, 'simultaneous', map);
+  const stuck = advanceBattleTick(enemyTurn.units, 'player', 3, enemyTurn.quietTurns, 'simultaneous', map);
+  assert.deepStrictEqual(findUnit(stuck.units, 'knight').position, { row: 7, col: 2 });
+  assert.strictEqual(stuck.actions[0].reason, 'slowed');
+
+  const freed = advanceBattleTick(stuck.units, 'enemy', 4, stuck.quietTurns, 'simultaneous', map);
+  const moving = advanceBattleTick(freed.units, 'player', 5, freed.quietTurns, 'simultaneous', map);
+  assert.deepStrictEqual(findUnit(moving.units, 'knight').position, { row: 6, col: 2 });
+});
+
+test('Spikes wound a unit that steps onto them, ignoring its shield', () => {
+  const map = terrainMap([{ row: 7, col: 2, type: 'spikes' }]);
+  const knight = place('knight', 'player', { row: 8, col: 2 }, 'knight');
+  const units = [knight, place('knight', 'enemy', { row: 0, col: 5 }, 'enemy')];
+
+  const result = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', map);
+
+  const wounded = findUnit(result.units, 'knight');
+  assert.deepStrictEqual(wounded.position, { row: 7, col: 2 });
+  assert.strictEqual(wounded.currentHp, knight.hp - 1);
+  assert.strictEqual(wounded.currentShield, knight.shield ?? 0);
+  assert.strictEqual(result.actions[0].terrainDamage, 1);
+});
+
+test('Board dimensions come from the match ruleset', () => {
+  const wide = getRuleset('v1.0.0-gdd-wide');
+  assert.ok(wide);
+  const units = [
+    place('knight', 'player', { row: 1, col: 7 }, 'flanker'),
+    place('knight', 'enemy', { row: 0, col: 0 }, 'enemy')
+  ];
+
+  const result = advanceBattleTick(units, 'player', 1, 0, 'simultaneous', undefined, wide);
+
+  assert.deepStrictEqual(findUnit(result.units, 'flanker').position, { row: 0, col: 7 });
+  assert.strictEqual(result.endReason, 'breach');
+
+  const short: Ruleset = { ...CURRENT_RULESET, version: 'test-short', board: { rows: 8, cols: 6, deploymentRows: 4 } };
+  const enemyAdvance = advanceBattleTick(
+    [place('knight', 'enemy', { row: 6, col: 2 }, 'raider'), place('knight', 'player', { row: 7, col: 5 }, 'guard')],
+    'enemy',
+    1,
+    0,
+    'simultaneous',
+    undefined,
+    short
+  );
+  assert.strictEqual(enemyAdvance.winner, 'enemy');
+  assert.strictEqual(summarizeBattle([enemyAdvance], short).breachUnitId, 'raider');
+});
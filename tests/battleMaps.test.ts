@@ -0,0 +1,27 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { BATTLE_MAPS, fitsBoard, getTerrainAt, mirrorBattleMap } from '../shared/battleMaps';
+import { RULESETS, CURRENT_RULESET } from '../shared/ruleset';
+
+test('Every battle map fits every ruleset board and mirrors onto itself', () => {
+  for (const map of BATTLE_MAPS) {
+    for (const ruleset of RULESETS) {
+      assert.ok(fitsBoard(map, ruleset.board), `${map.id} fits ${ruleset.version}`);
+    }
+    const mirrored = mirrorBattleMap(map, CURRENT_RULESET.board.rows);
+    for (const tile of mirrored.tiles) {
+      assert.strictEqual(getTerrainAt(map, tile.row, tile.col), tile.type, `${map.id} is symmetric at ${tile.row}-${tile.col}`);
+    }
+  }
+});
+
+test('A lopsided or oversized map does not fit the board', () => {
+  const board = CURRENT_RULESET.board;
+  assert.ok(!fitsBoard({ id: 'lopsided', name: 'Lopsided', tiles: [{ row: 5, col: 1, type: 'rock' }] }, board));
+  assert.ok(!fitsBoard({ id: 'wide', name: 'Wide', tiles: [{ row: 5, col: 7, type: 'rock' }, { row: 6, col: 7, type: 'rock' }] }, board));
+});
+
+test('Map ids are unique', () => {
+  const ids = BATTLE_MAPS.map((map) => map.id);
+  assert.strictEqual(new Set(ids).size, ids.length);
+});
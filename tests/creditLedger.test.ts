@@ -0,0 +1,54 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { createLocalLedger } from '../server/src/creditLedger';
+import { createLocalRanks, winRewardFor } from '../server/src/playerRanks';
+import {
+  calculateWinReward,
+  WIN_REWARD_HIGHER_RANK,
+  WIN_REWARD_LOWER_RANK,
+  WIN_REWARD_SAME_RANK
+} from '../shared/rewards';
+
+test('A win pays more against a higher-ranked opponent and less against a lower one', () => {
+  assert.strictEqual(calculateWinReward(), WIN_REWARD_SAME_RANK);
+  assert.strictEqual(calculateWinReward({ playerRank: 3, opponentRank: 3 }), WIN_REWARD_SAME_RANK);
+  assert.strictEqual(calculateWinReward({ playerRank: 3, opponentRank: 5 }), WIN_REWARD_HIGHER_RANK);
+  assert.strictEqual(calculateWinReward({ playerRank: 3, opponentRank: 1 }), WIN_REWARD_LOWER_RANK);
+  assert.strictEqual(calculateWinReward({ playerRank: 3, opponentRank: null }), WIN_REWARD_SAME_RANK);
+});
+
+test('The server prices a win by both players\' ranks', async () => {
+  const ranks = createLocalRanks({ rookie: 1, veteran: 3 });
+
+  assert.strictEqual(await winRewardFor(ranks, 'rookie', 'veteran'), WIN_REWARD_HIGHER_RANK);
+  assert.strictEqual(await winRewardFor(ranks, 'veteran', 'rookie'), WIN_REWARD_LOWER_RANK);
+  assert.strictEqual(await winRewardFor(ranks, 'rookie', 'unranked'), WIN_REWARD_SAME_RANK);
+  assert.strictEqual(await winRewardFor(null, 'rookie', 'veteran'), WIN_REWARD_SAME_RANK);
+});
+
+test('Each credit change is appended and moves the balance', async () => {
+  const ledger = createLocalLedger({ 'player-1': 100 });
+
+  assert.deepStrictEqual(await ledger.record({ playerId: 'player-1', amount: 50, reason: 'battle_win', referenceId: 'm1' }), {
+    applied: true,
+    balance: 150
+  });
+  assert.deepStrictEqual(await ledger.record({ playerId: 'player-1', amount: 50, reason: 'battle_win', referenceId: 'm2' }), {
+    applied: true,
+    balance: 200
+  });
+  assert.deepStrictEqual(ledger.entries.map((entry) => entry.referenceId), ['m1', 'm2']);
+});
+
+test('A match rewards each player at most once', async () => {
+  const ledger = createLocalLedger();
+  const reward = { playerId: 'player-1', amount: 50, reason: 'battle_win' as const, referenceId: 'm1' };
+
+  const results = await Promise.all([ledger.record(reward), ledger.record(reward)]);
+  assert.deepStrictEqual(results.map((result) => result.applied), [true, false]);
+  assert.deepStrictEqual(await ledger.record(reward), { applied: false });
+  assert.strictEqual(ledger.entries.length, 1);
+
+  // The same match still rewards a different player
+  assert.deepStrictEqual(await ledger.record({ ...reward, playerId: 'player-2' }), { applied: true, balance: 50 });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { OPEN_FIELD } from '../shared/battleMaps';
+import { getDeploymentArea, isInDeploymentArea, mergeDeployments } from '../shared/deployment';
+import { CURRENT_RULESET, getRuleset } from '../shared/ruleset';
+
+type Side = 'player' | 'enemy';
+const deployed = (instanceId: string, team: Side, row: number, col: number) => ({
+  instanceId,
+  team,
+  position: { row, col }
+});
+
+test('Free placement opens the board but the enemy back row; zone placement keeps each side to its own end', () => {
+  const free = getDeploymentArea(CURRENT_RULESET);
+  assert.strictEqual(CURRENT_RULESET.variants.placement, 'anywhere');
+  assert.ok(isInDeploymentArea(free, { row: 1, col: 0 }));
+  assert.ok(isInDeploymentArea(free, { row: CURRENT_RULESET.board.rows - 1, col: 0 }));
+  // A unit on the enemy back row would win by breach on the first turn
+  assert.ok(!isInDeploymentArea(free, { row: 0, col: 0 }));
+
+  const zoned = getDeploymentArea(getRuleset('v1.0.0')!);
+  assert.ok(!isInDeploymentArea(zoned, { row: 5, col: 0 }));
+  assert.ok(isInDeploymentArea(zoned, { row: 6, col: 0 }));
+  assert.ok(!isInDeploymentArea(zoned, { row: 6, col: 6 }));
+});
+
+test('Armies that do not overlap merge unchanged', () => {
+  const units = [deployed('a1', 'player', 5, 2), deployed('b1', 'enemy', 4, 2)];
+
+  const { units: merged, displacements } = mergeDeployments(units, CURRENT_RULESET.board, OPEN_FIELD);
+
+  assert.deepStrictEqual(merged, units);
+  assert.deepStrictEqual(displacements, []);
+});
+
+test('Both units on a contested tile fall back towards their own end and the tile stays empty', () => {
+  const units = [deployed('b1', 'enemy', 5, 2), deployed('a1', 'player', 5, 2), deployed('a2', 'player', 6, 2)];
+
+  const { units: merged, displacements } = mergeDeployments(units, CURRENT_RULESET.board, OPEN_FIELD);
+
+  const positions = Object.fromEntries(merged.map((unit) => [unit.instanceId, unit.position]));
+  assert.deepStrictEqual(positions.b1, { row: 4, col: 2 });
+  // Straight back is taken by a2, so a1 takes the nearest free tile on its own row
+  assert.deepStrictEqual(positions.a1, { row: 5, col: 1 });
+  assert.deepStrictEqual(positions.a2, { row: 6, col: 2 });
+  assert.deepStrictEqual(
+    displacements.map((d) => d.instanceId),
+    ['a1', 'b1']
+  );
+});
+
+test('Displaced units avoid impassable terrain and sit out when the board is full', () => {
+  const board = { rows: 3, cols: 2, deploymentRows: 1 };
+  const rock = (row: number, col: number) => ({ row, col, type: 'rock' as const });
+  const map = { id: 'rocky', name: 'Rocky', tiles: [rock(0, 0), rock(0, 1), rock(2, 0)] };
+  const units = [deployed('a1', 'player', 1, 0), deployed('b1', 'enemy', 1, 0), deployed('a2', 'player', 2, 1)];
+
+  const { units: merged, displacements } = mergeDeployments(units, board, map);
+
+  assert.deepStrictEqual(merged.map((unit) => [unit.instanceId, unit.position]), [
+    ['a1', { row: 1, col: 1 }],
+    ['a2', { row: 2, col: 1 }]
+  ]);
+  assert.deepStrictEqual(displacements[1], { instanceId: 'b1', team: 'enemy', from: { row: 1, col: 0 }, to: null });
+});
+
+test('Displaced units never fall back onto the enemy back row', () => {
+  const board = { rows: 3, cols: 1, deploymentRows: 1 };
+  const units = [deployed('a1', 'player', 1, 0), deployed('b1', 'enemy', 1, 0), deployed('a2', 'player', 2, 0)];
+
+  const { displacements } = mergeDeployments(units, board, OPEN_FIELD);
+
+  // Row 0 is free, but it is the player's breach row; the enemy may fall back onto its own back row
+  assert.deepStrictEqual(
+    displacements.map((d) => [d.instanceId, d.to]),
+    [
+      ['a1', null],
+      ['b1', { row: 0, col: 0 }]
+    ]
+  );
+});
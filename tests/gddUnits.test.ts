@@ -1,6 +1,22 @@
 import assert from 'node:assert';
 import test from 'node:test';
-import { buildGddUnit, GDD_UNIT_IDS, GDD_UNIT_DEFS } from '../shared/gddUnits';
+import {
+  applyUnitUpgrades,
+  applyVeterancy,
+  BEHAVIOR_SCHEMA_VERSION,
+  buildGddUnit,
+  convertLegacyBehaviors,
+  DEFAULT_UNIT_PATTERN,
+  GDD_UNIT_IDS,
+  GDD_UNIT_DEFS,
+  getUnitLevel,
+  getUnitPattern,
+  getUpgradeCost,
+  getXpToNextLevel,
+  MAX_UNIT_LEVEL,
+  resolveBehavior,
+  validateBehaviorConfig
+} from '../shared/gddUnits';
 
 test('all GDD unit ids resolve to a template', () => {
   for (const id of GDD_UNIT_IDS) {
@@ -39,3 +55,101 @@ test('supply, credit, and revive costs match the document', () => {
   assert.strictEqual(giant.creditCost, 100);
   assert.strictEqual(giant.reviveCost, 25);
 });
+
+test('units outside the roster fall back to the default pattern', () => {
+  assert.strictEqual(getUnitPattern('unknown-unit'), DEFAULT_UNIT_PATTERN);
+  assert.deepStrictEqual(DEFAULT_UNIT_PATTERN.moves, [{ forward: 1, lateral: 0 }]);
+  assert.deepStrictEqual(DEFAULT_UNIT_PATTERN.melee, [{ forward: 1, lateral: 0 }]);
+});
+
+test('archer pattern covers the 3x3 volley zone from the document', () => {
+  const { melee, ranged, attackType } = GDD_UNIT_DEFS.archer.pattern;
+  assert.strictEqual(attackType, 'ranged');
+  assert.deepStrictEqual(melee, [{ forward: 1, lateral: 0 }]);
+  assert.strictEqual(ranged.length, 9);
+  assert.ok(ranged.every((offset) => offset.forward >= 2 && offset.forward <= 4 && Math.abs(offset.lateral) <= 1));
+});
+
+test('behavior defaults come from the schema', () => {
+  assert.strictEqual(resolveBehavior('archer', undefined, 'targetPreference'), 'weakest');
+  assert.strictEqual(resolveBehavior('archer', undefined, 'priority'), 'shooting');
+  assert.strictEqual(resolveBehavior('recruit', undefined, 'laneLogic'), 'aggressive');
+  assert.strictEqual(resolveBehavior('knight', undefined, 'laneLogic'), undefined);
+});
+
+test('every legacy behavior label converts to its typed value', () => {
+  for (const id of GDD_UNIT_IDS) {
+    const unit = buildGddUnit(id);
+    for (const label of unit.behaviorOptions) {
+      const { errors } = convertLegacyBehaviors(id, [label]);
+      assert.deepStrictEqual(errors, [], `${id} should accept "${label}"`);
+    }
+  }
+
+  const { config } = convertLegacyBehaviors('archer', ['Target Preference: Strongest', 'Priority: Advancing']);
+  assert.deepStrictEqual(config, {
+    version: BEHAVIOR_SCHEMA_VERSION,
+    targetPreference: 'strongest',
+    priority: 'advancing'
+  });
+});
+
+test('legacy conversion rejects unknown and conflicting labels instead of guessing', () => {
+  assert.strictEqual(convertLegacyBehaviors('recruit', ['Runnr']).errors.length, 1);
+  assert.strictEqual(convertLegacyBehaviors('knight', ['Runner']).errors.length, 1);
+  assert.strictEqual(convertLegacyBehaviors('zombie', ['Sidestep priority: Left']).errors.length, 1);
+  assert.strictEqual(convertLegacyBehaviors('giant', ['Attack arc: Left', 'Attack arc: Right']).errors.length, 1);
+});
+
+test('typed configs are validated against the unit and schema version', () => {
+  assert.deepStrictEqual(validateBehaviorConfig('mage', { version: BEHAVIOR_SCHEMA_VERSION, sidestep: 'right' }), []);
+  assert.strictEqual(validateBehaviorConfig('mage', { version: BEHAVIOR_SCHEMA_VERSION + 1, sidestep: 'right' }).length, 1);
+  assert.strictEqual(validateBehaviorConfig('knight', { version: BEHAVIOR_SCHEMA_VERSION, attackArc: 'left' }).length, 1);
+  assert.strictEqual(
+    validateBehaviorConfig('giant', { version: BEHAVIOR_SCHEMA_VERSION, attackArc: 'up' as 'left' }).length,
+    1
+  );
+});
+
+test('upgrades add their stat bonuses once and only when offered for the unit', () => {
+  const knight = applyUnitUpgrades({ ...buildGddUnit('knight'), upgrades: ['shield', 'damage', 'damage'] });
+  assert.strictEqual(knight.shield, 2);
+  assert.strictEqual(knight.damage, 4);
+
+  const mage = applyUnitUpgrades({ ...buildGddUnit('mage'), upgrades: ['damage'] });
+  assert.strictEqual(mage.damage, 0);
+
+  assert.strictEqual(getUpgradeCost('knight', ['shield', 'damage']), 70);
+  assert.strictEqual(getUpgradeCost('mage', ['damage']), 0);
+});
+
+test('range upgrade extends only the ranged zone', () => {
+  const base = getUnitPattern('archer');
+  const upgraded = getUnitPattern('archer', ['range']);
+  assert.deepStrictEqual(upgraded.melee, base.melee);
+  assert.deepStrictEqual(upgraded.ranged.slice(0, base.ranged.length), base.ranged);
+  assert.deepStrictEqual(upgraded.ranged.slice(base.ranged.length), [
+    { forward: 5, lateral: -1 },
+    { forward: 5, lateral: 0 },
+    { forward: 5, lateral: 1 }
+  ]);
+});
+
+test('unit levels follow the XP thresholds and stop at the cap', () => {
+  assert.strictEqual(getUnitLevel(undefined), 1);
+  assert.strictEqual(getUnitLevel(24), 1);
+  assert.strictEqual(getUnitLevel(25), 2);
+  assert.strictEqual(getUnitLevel(10_000), MAX_UNIT_LEVEL);
+  assert.strictEqual(getXpToNextLevel(20), 5);
+  assert.strictEqual(getXpToNextLevel(10_000), null);
+});
+
+test('veterancy bonuses are small and keep a fresh unit at full health', () => {
+  const rookie = applyVeterancy({ ...buildGddUnit('beast'), xp: 0, currentHp: 6 });
+  assert.strictEqual(rookie.hp, 6);
+
+  const veteran = applyVeterancy({ ...buildGddUnit('beast'), xp: 10_000, currentHp: 6 });
+  assert.strictEqual(veteran.hp, 8);
+  assert.strictEqual(veteran.currentHp, 8);
+  assert.strictEqual(veteran.damage, 4);
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { BEHAVIOR_SCHEMA_VERSION } from '../shared/gddUnits';
+import { getDeploymentArea } from '../shared/deployment';
+import { applyArmyAdjustment, forfeitAdjustment, startMindGame, submitAdjustment } from '../shared/mindGame';
+import { getRuleset } from '../shared/ruleset';
+import { area, unit } from './armyFixtures';
+
+const army = () => [unit('k1', 'knight', 10, 1), unit('a1', 'archer', 11, 2)];
+
+test('A move goes to an empty tile inside the deployment area', () => {
+  const { army: moved, errors } = applyArmyAdjustment(army(), { kind: 'move', instanceId: 'k1', to: { row: 3, col: 0 } }, area);
+  assert.deepStrictEqual(errors, []);
+  assert.deepStrictEqual(moved[0].position, { row: 3, col: 0 });
+
+  const onAlly = applyArmyAdjustment(army(), { kind: 'move', instanceId: 'k1', to: { row: 11, col: 2 } }, area);
+  assert.strictEqual(onAlly.errors.length, 1);
+
+  const zoned = getDeploymentArea(getRuleset('v1.0.0')!);
+  const outside = applyArmyAdjustment(army(), { kind: 'move', instanceId: 'k1', to: { row: 3, col: 0 } }, zoned);
+  assert.strictEqual(outside.errors.length, 1);
+  assert.deepStrictEqual(outside.army, army());
+});
+
+test('A move to a fractional or missing tile is refused', () => {
+  const targets: unknown[] = [{ row: 3.5, col: 0.2 }, { row: 3, col: '0' }, null, 'b4', undefined];
+  for (const to of targets) {
+    const adjustment = { kind: 'move', instanceId: 'k1', to } as Parameters<typeof applyArmyAdjustment>[1];
+    const { army: unchanged, errors } = applyArmyAdjustment(army(), adjustment, area);
+    assert.strictEqual(errors.length, 1, `accepted ${JSON.stringify(to)}`);
+    assert.deepStrictEqual(unchanged, army());
+  }
+});
+
+test('Unknown or malformed adjustments are refused with an error', () => {
+  const adjustments: unknown[] = [
+    null,
+    'pass',
+    { kind: 'teleport', instanceId: 'k1' },
+    { kind: 'behavior', instanceId: 'k1', behaviorConfig: null }
+  ];
+  for (const adjustment of adjustments) {
+    const { army: unchanged, errors } = applyArmyAdjustment(
+      army(),
+      adjustment as Parameters<typeof applyArmyAdjustment>[1],
+      area
+    );
+    assert.strictEqual(errors.length, 1, `accepted ${JSON.stringify(adjustment)}`);
+    assert.deepStrictEqual(unchanged, army());
+  }
+
+  const state = startMindGame(army(), army());
+  const rejected = submitAdjustment(state, 'challenger', { kind: 'teleport' } as never, area);
+  assert.deepStrictEqual(rejected.errors, ['Unknown adjustment']);
+  assert.strictEqual(rejected.state, state);
+});
+
+test('A swap exchanges two units and a behavior change must be valid for the unit', () => {
+  const swapped = applyArmyAdjustment(army(), { kind: 'swap', instanceId: 'k1', otherInstanceId: 'a1' }, area);
+  assert.deepStrictEqual(swapped.army.map((entry) => entry.position), [
+    { row: 11, col: 2 },
+    { row: 10, col: 1 }
+  ]);
+  assert.strictEqual(applyArmyAdjustment(army(), { kind: 'swap', instanceId: 'k1', otherInstanceId: 'k1' }, area).errors.length, 1);
+
+  const advancing = { version: BEHAVIOR_SCHEMA_VERSION, priority: 'advancing' as const };
+  const changed = applyArmyAdjustment(army(), { kind: 'behavior', instanceId: 'a1', behaviorConfig: advancing }, area);
+  assert.deepStrictEqual(changed.errors, []);
+  assert.deepStrictEqual(changed.army[1], { ...army()[1], behaviorConfig: advancing });
+  assert.ok(applyArmyAdjustment(army(), { kind: 'behavior', instanceId: 'k1', behaviorConfig: advancing }, area).errors.length > 0);
+
+  assert.strictEqual(applyArmyAdjustment(army(), { kind: 'swap', instanceId: 'x', otherInstanceId: 'a1' }, area).errors.length, 1);
+});
+
+test('The challenger adjusts first, then the defender, once each', () => {
+  let state = startMindGame(army(), army());
+
+  assert.strictEqual(submitAdjustment(state, 'defender', { kind: 'pass' }, area).errors.length, 1);
+
+  state = submitAdjustment(state, 'challenger', { kind: 'move', instanceId: 'k1', to: { row: 9, col: 1 } }, area).state;
+  assert.strictEqual(state.step, 'defender');
+  assert.deepStrictEqual(state.challengerArmy[0].position, { row: 9, col: 1 });
+  assert.strictEqual(submitAdjustment(state, 'challenger', { kind: 'pass' }, area).errors.length, 1);
+
+  const rejected = submitAdjustment(state, 'defender', { kind: 'move', instanceId: 'k1', to: { row: 11, col: 2 } }, area);
+  assert.strictEqual(rejected.state, state);
+
+  state = submitAdjustment(state, 'defender', { kind: 'swap', instanceId: 'k1', otherInstanceId: 'a1' }, area).state;
+  assert.strictEqual(state.step, 'resolved');
+  assert.deepStrictEqual(Object.keys(state.adjustments), ['challenger', 'defender']);
+});
+
+test('Running out of time passes the step without changing the army', () => {
+  const state = forfeitAdjustment(startMindGame(army(), army()), area);
+  assert.strictEqual(state.step, 'defender');
+  assert.deepStrictEqual(state.challengerArmy, army());
+  assert.deepStrictEqual(state.adjustments, { challenger: { kind: 'pass' } });
+  assert.strictEqual(forfeitAdjustment(forfeitAdjustment(state, area), area).step, 'resolved');
+});
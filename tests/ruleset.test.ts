@@ -0,0 +1,63 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { initializeBattle } from '../src/engine/battleEngine';
+import { buildGddUnit, GDD_UNIT_DEFS, GDD_UNIT_IDS } from '../shared/gddUnits';
+import { applyRulesetStats, CURRENT_RULESET, getRuleset, RULESETS } from '../shared/ruleset';
+
+test('Current ruleset matches the unit definitions; change stats by releasing a new version', () => {
+  for (const id of GDD_UNIT_IDS) {
+    const { hp, defense, shield, damage, speed, range, supplyCost } = GDD_UNIT_DEFS[id];
+    assert.deepStrictEqual(
+      CURRENT_RULESET.units[id],
+      { hp, defense, shield, damage, speed, range, supplyCost },
+      `${id} stats differ from ruleset ${CURRENT_RULESET.version}`
+    );
+  }
+});
+
+test('Released rulesets keep the stats they were published with', () => {
+  assert.deepStrictEqual(getRuleset('v1.0.0')?.units, {
+    recruit: { hp: 1, defense: 0, shield: 0, damage: 1, speed: 1, range: 1, supplyCost: 1 },
+    knight: { hp: 2, defense: 2, shield: 1, damage: 3, speed: 1, range: 1, supplyCost: 3 },
+    beast: { hp: 6, defense: 1, shield: 0, damage: 3, speed: 1, range: 1, supplyCost: 4 },
+    archer: { hp: 2, defense: 0, shield: 0, damage: 2, speed: 1, range: 3, supplyCost: 2 },
+    giant: { hp: 8, defense: 0, shield: 0, damage: 3, speed: 1, range: 1, supplyCost: 5 },
+    mage: { hp: 2, defense: 0, shield: 0, damage: 0, speed: 1, range: 1, supplyCost: 4 },
+    zombie: { hp: 5, defense: 0, shield: 0, damage: 4, speed: 1, range: 1, supplyCost: 3 }
+  });
+  // The slower Giant only plays under later versions
+  assert.strictEqual(getRuleset('v1.1.0')?.units.giant.speed, 2);
+  const giant = applyRulesetStats(buildGddUnit('giant'), getRuleset('v1.0.0')!);
+  assert.strictEqual(giant.speed, 1);
+});
+
+test('Ruleset versions are unique and can be looked up', () => {
+  const versions = RULESETS.map((ruleset) => ruleset.version);
+  assert.strictEqual(new Set(versions).size, versions.length);
+  assert.strictEqual(getRuleset(CURRENT_RULESET.version), CURRENT_RULESET);
+  assert.strictEqual(getRuleset('v0.0.0'), undefined);
+});
+
+test('Ruleset stats replace whatever stats a unit arrives with', () => {
+  const tampered = { ...buildGddUnit('knight'), hp: 99, damage: 99 };
+  const ruleset = { ...CURRENT_RULESET, units: { ...CURRENT_RULESET.units, knight: { ...CURRENT_RULESET.units.knight, hp: 4 } } };
+
+  const knight = applyRulesetStats(tampered, ruleset);
+
+  assert.strictEqual(knight.hp, 4);
+  assert.strictEqual(knight.damage, CURRENT_RULESET.units.knight.damage);
+  const unknown = { ...tampered, id: 'dragon' };
+  assert.strictEqual(applyRulesetStats(unknown, ruleset), unknown);
+});
+
+test('Battles take their resolution mode from the ruleset variant unless overridden', () => {
+  const sequential = getRuleset('v1.0.0-sequential');
+  assert.ok(sequential);
+
+  assert.strictEqual(initializeBattle([], { seed: 1 }).resolutionMode, CURRENT_RULESET.variants.resolutionMode);
+  assert.strictEqual(initializeBattle([], { seed: 1, ruleset: sequential }).resolutionMode, 'sequential');
+  assert.strictEqual(
+    initializeBattle([], { seed: 1, ruleset: sequential, resolutionMode: 'simultaneous' }).resolutionMode,
+    'simultaneous'
+  );
+});
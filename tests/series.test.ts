@@ -0,0 +1,55 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { BEHAVIOR_SCHEMA_VERSION } from '../shared/gddUnits';
+import { reviseSeriesArmy, scoreSeries, seriesWinner } from '../shared/series';
+import { area, unit } from './armyFixtures';
+
+const army = () => [unit('k1', 'knight', 10, 1), unit('a1', 'archer', 11, 2), unit('r1', 'recruit', 11, 3), unit('r2', 'recruit', 11, 4)];
+
+test('A series goes to the first side with two wins, or is scored after three matches', () => {
+  assert.strictEqual(seriesWinner(['A']), null);
+  assert.strictEqual(seriesWinner(['A', 'A']), 'A');
+  assert.strictEqual(seriesWinner(['A', 'B']), null);
+  assert.strictEqual(seriesWinner(['A', 'B', 'B']), 'B');
+  assert.strictEqual(seriesWinner(['A', 'draw', 'draw']), 'A');
+  assert.strictEqual(seriesWinner(['A', 'draw', 'B']), 'draw');
+  assert.deepStrictEqual(scoreSeries(['A', 'draw', 'B']), { A: 1, B: 1, draws: 1 });
+});
+
+test('Moves and behavior changes each count as an adjustment; a swap counts once', () => {
+  const next = army();
+  next[0] = { ...next[0], position: { row: 11, col: 2 } };
+  next[1] = { ...next[1], position: { row: 10, col: 1 } };
+  next[2] = { ...next[2], position: { row: 5, col: 0 } };
+  next[3] = { ...next[3], behaviorConfig: { version: BEHAVIOR_SCHEMA_VERSION, laneLogic: 'runner' } };
+
+  const revision = reviseSeriesArmy(army(), next, area);
+
+  assert.deepStrictEqual(revision.errors, []);
+  assert.strictEqual(revision.adjustments, 3);
+  assert.deepStrictEqual(revision.army[2].position, { row: 5, col: 0 });
+});
+
+test('More than three adjustments are refused and the previous army stands', () => {
+  const previous = army();
+  const next = previous.map((entry) => ({ ...entry, position: { row: entry.position.row - 2, col: entry.position.col } }));
+
+  const revision = reviseSeriesArmy(previous, next, area);
+
+  assert.strictEqual(revision.adjustments, 4);
+  assert.strictEqual(revision.errors.length, 1);
+  assert.strictEqual(revision.army, previous);
+});
+
+test('The roster is fixed for the series and the server keeps its own unit stats', () => {
+  const previous = army();
+  assert.ok(reviseSeriesArmy(previous, previous.slice(1), area).errors.length > 0);
+  assert.ok(reviseSeriesArmy(previous, [...previous, unit('g1', 'giant', 9, 0)], area).errors.length > 0);
+  assert.ok(reviseSeriesArmy(previous, [{ ...previous[0], id: 'giant' }, ...previous.slice(1)], area).errors.length > 0);
+  assert.ok(reviseSeriesArmy(previous, [{ ...previous[0], position: { row: 11, col: 2 } }, ...previous.slice(1)], area).errors.length > 0);
+
+  const tampered = [{ ...previous[0], hp: 99 }, ...previous.slice(1)];
+  const revision = reviseSeriesArmy(previous, tampered, area);
+  assert.strictEqual(revision.adjustments, 0);
+  assert.strictEqual(revision.army[0].hp, 2);
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import { matchStrategyRule, sanitizeStrategyRules } from '../src/engine/strategyRules';
+import type { StrategyContext } from '../src/engine/strategyRules';
+import type { StrategyRule } from '../src/types';
+
+const calm: StrategyContext = {
+  hpRatio: 1,
+  enemyInRange: false,
+  allyInjuredNearby: false,
+  pathBlocked: false,
+  enemyTypesInRange: []
+};
+
+const rule = (id: string, condition: string, action: string): StrategyRule => ({ id, unitId: 'knight', condition, action });
+
+test('the first rule whose condition holds wins', () => {
+  const rules = [
+    rule('low-hp', 'HP below 40%', 'Retreat 2 tiles'),
+    rule('in-range', 'Enemy in range', 'Hold position'),
+    rule('giant', 'Enemy type: Giant', 'Attack priority target')
+  ];
+
+  assert.strictEqual(matchStrategyRule(rules, calm), undefined);
+  assert.deepStrictEqual(
+    matchStrategyRule(rules, { ...calm, enemyInRange: true, enemyTypesInRange: ['giant'] }),
+    { ruleId: 'in-range', action: 'Hold position' }
+  );
+  assert.deepStrictEqual(
+    matchStrategyRule(rules, { ...calm, hpRatio: 0.25, enemyInRange: true }),
+    { ruleId: 'low-hp', action: 'Retreat 2 tiles' }
+  );
+});
+
+test('unknown phrases are skipped and legacy labels still resolve', () => {
+  const rules = [
+    rule('typo', 'Path blocked', 'Dance'),
+    rule('mystery', 'Full moon', 'Hold position'),
+    rule('legacy', 'Path blocked', 'Attack priority')
+  ];
+
+  assert.deepStrictEqual(matchStrategyRule(rules, { ...calm, pathBlocked: true }), {
+    ruleId: 'legacy',
+    action: 'Attack priority target'
+  });
+});
+
+test('object prototype names are not actions', () => {
+  const rules = [rule('proto', 'Path blocked', 'constructor'), rule('to-string', 'Path blocked', 'toString')];
+
+  assert.strictEqual(matchStrategyRule(rules, { ...calm, pathBlocked: true }), undefined);
+});
+
+test('books from a client keep only well-formed rules with known phrases', () => {
+  const received: unknown = [
+    rule('ok', 'Enemy in range', 'Hold position'),
+    rule('legacy', 'Path blocked', 'Attack priority'),
+    rule('proto', 'Path blocked', 'constructor'),
+    { id: 7, condition: 'Path blocked', action: 'Hold position' },
+    { id: 'extra', unitId: 'giant', condition: 'Path blocked', action: 'Move forward', damage: 99 },
+    null,
+    'Hold position'
+  ];
+
+  assert.deepStrictEqual(sanitizeStrategyRules(received, 'knight'), [
+    { id: 'ok', unitId: 'knight', condition: 'Enemy in range', action: 'Hold position' },
+    { id: 'legacy', unitId: 'knight', condition: 'Path blocked', action: 'Attack priority target' },
+    { id: 'extra', unitId: 'knight', condition: 'Path blocked', action: 'Move forward' }
+  ]);
+  assert.deepStrictEqual(sanitizeStrategyRules({ length: 1 }, 'knight'), []);
+});
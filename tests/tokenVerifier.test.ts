@@ -0,0 +1,42 @@
+import assert from 'node:assert';
+import { createHmac } from 'node:crypto';
+import test from 'node:test';
+import { createJwtSecretVerifier } from '../server/src/tokenVerifier';
+
+const SECRET = 'local-test-secret';
+const NOW = Date.UTC(2026, 0, 1);
+const segment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (claims: object, secret = SECRET, header: object = { alg: 'HS256', typ: 'JWT' }) => {
+  const unsigned = `${segment(header)}.${segment(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+};
+
+const verifier = createJwtSecretVerifier(SECRET, () => NOW);
+const claims = { sub: 'player-1', email: 'ada@example.com', exp: NOW / 1000 + 3600 };
+
+test('A token signed with the secret resolves to its account and email name', async () => {
+  assert.deepStrictEqual(await verifier.verify(signToken(claims)), { playerId: 'player-1', name: 'ada' });
+});
+
+test('Tokens signed with another secret or edited after signing are refused', async () => {
+  assert.strictEqual(await verifier.verify(signToken(claims, 'someone-elses-secret')), null);
+
+  const [header, , signature] = signToken(claims).split('.');
+  const forged = `${header}.${segment({ ...claims, sub: 'player-2' })}.${signature}`;
+  assert.strictEqual(await verifier.verify(forged), null);
+});
+
+test('Expired tokens and tokens without an account are refused', async () => {
+  assert.strictEqual(await verifier.verify(signToken({ ...claims, exp: NOW / 1000 - 1 })), null);
+  assert.strictEqual(await verifier.verify(signToken({ ...claims, sub: undefined })), null);
+  assert.strictEqual(await verifier.verify(signToken({ sub: 'player-1' })), null);
+});
+
+test('Unsigned and malformed tokens are refused', async () => {
+  const unsigned = `${segment({ alg: 'none', typ: 'JWT' })}.${segment(claims)}.`;
+  assert.strictEqual(await verifier.verify(unsigned), null);
+  assert.strictEqual(await verifier.verify(signToken(claims, SECRET, { alg: 'HS512' })), null);
+  assert.strictEqual(await verifier.verify('not-a-token'), null);
+  assert.strictEqual(await verifier.verify('a.b.c'), null);
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert';
+import test from 'node:test';
+import type { UnitXpAward } from '../server/src/battleTypes';
+import { createLocalXpLedger } from '../server/src/unitXpLedger';
+
+const award = (instanceId: string, xp: number): UnitXpAward => ({
+  instanceId,
+  team: 'player',
+  kills: 0,
+  damageDealt: 0,
+  survived: true,
+  xp
+});
+
+test('A match adds experience to the player\'s own units once', async () => {
+  const ledger = createLocalXpLedger({ 'player-1': { u1: 10, u2: 0 } });
+  const awards = [award('u1', 5), award('u2', 3)];
+
+  const results = await Promise.all([ledger.record('player-1', 'm1', awards), ledger.record('player-1', 'm1', awards)]);
+  assert.deepStrictEqual(results, [true, false]);
+  assert.deepStrictEqual(ledger.xpByPlayer['player-1'], { u1: 15, u2: 3 });
+
+  assert.strictEqual(await ledger.record('player-1', 'm2', awards), true);
+  assert.deepStrictEqual(ledger.xpByPlayer['player-1'], { u1: 20, u2: 6 });
+});
+
+test('Experience for units the player does not own is dropped', async () => {
+  const ledger = createLocalXpLedger({ 'player-1': { u1: 0 }, 'player-2': { u2: 0 } });
+
+  await ledger.record('player-1', 'm1', [award('u1', 4), award('u2', 4), award('constructor', 4)]);
+  assert.deepStrictEqual(ledger.xpByPlayer, { 'player-1': { u1: 4 }, 'player-2': { u2: 0 } });
+});